@@ -8,6 +8,9 @@ interface AWSAccount {
   id: number;
   accountId: string;
   accountName: string;
+  // Identity STS returned when the credentials were last validated
+  callerArn?: string;
+  validatedAt?: string;
   regions: AWSRegion[];
 }
 
@@ -30,20 +33,62 @@ interface Finding {
   finding: string;
   description: string;
   remediation: string;
+  status: 'OPEN' | 'ACKNOWLEDGED' | 'IN_PROGRESS' | 'RESOLVED' | 'RISK_ACCEPTED';
+  firstSeen: string;
+  lastSeen: string;
+  resolvedAt?: string;
+  assignee?: string;
+  dueDate?: string;
 }
 
 interface Stats {
   totalFindings: number;
   byService: Array<{ service: string; count: number }>;
   bySeverity: Array<{ severity: string; count: number }>;
+  byRegion: Array<{ region: string; count: number }>;
 }
 
+type CoverageStatus = 'ok' | 'error' | 'access_denied' | 'skipped';
+
+interface ScanCoverage {
+  id: number;
+  scanId: number;
+  region: string;
+  service: string;
+  check?: string;
+  status: CoverageStatus;
+  message?: string;
+}
+
+type ScanJobStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+
+interface ScanJob {
+  id: number;
+  accountId?: number;
+  status: ScanJobStatus;
+  progress: {
+    totalSteps: number;
+    completedSteps: number;
+    accounts: Record<number, {
+      status: ScanJobStatus;
+      regions: Record<string, ScanJobStatus>;
+      services: Record<string, ScanJobStatus>;
+    }>;
+  };
+  errors: Array<{ accountId?: number; region?: string; service?: string; message: string }>;
+  findingsCount: number;
+}
+
+const SCAN_JOB_POLL_INTERVAL_MS = 2000;
+
 interface SecurityState {
   accounts: AWSAccount[];
   selectedAccountId: number | null;
   selectedRegion: string | null;
   findings: Finding[];
   stats: Stats | null;
+  coverage: ScanCoverage[];
+  scanJob: ScanJob | null;
   loading: boolean;
   error: string | null;
 }
@@ -55,6 +100,8 @@ export const useSecurityStore = defineStore('security', {
     selectedRegion: null,
     findings: [],
     stats: null,
+    coverage: [],
+    scanJob: null,
     loading: false,
     error: null,
   }),
@@ -87,9 +134,13 @@ export const useSecurityStore = defineStore('security', {
     async addAccount(account: {
       accountName: string;
       accountId: string;
-      accessKeyId: string;
-      secretAccessKey: string;
+      credentialSource: string;
+      accessKeyId?: string;
+      secretAccessKey?: string;
       sessionToken?: string;
+      roleArn?: string;
+      externalId?: string;
+      profile?: string;
       regions: string[];
     }) {
       try {
@@ -100,9 +151,13 @@ export const useSecurityStore = defineStore('security', {
         const response = await axios.post(`${API_BASE_URL}/accounts`, {
           accountName: account.accountName,
           accountId: account.accountId,
+          credentialSource: account.credentialSource,
           accessKeyId: account.accessKeyId,
           secretAccessKey: account.secretAccessKey,
           sessionToken: account.sessionToken,
+          roleArn: account.roleArn,
+          externalId: account.externalId,
+          profile: account.profile,
         });
 
         // Then, add the selected regions
@@ -119,7 +174,29 @@ export const useSecurityStore = defineStore('security', {
         notificationStore.showSuccess('Account added successfully');
       } catch (error) {
         const notificationStore = useNotificationStore();
-        const errorMessage = error instanceof Error ? error.message : 'An error occurred while adding account';
+        // Rejected credentials come back with the reason from STS
+        const errorMessage = error instanceof AxiosError && error.response?.data?.error
+          ? error.response.data.error
+          : error instanceof Error ? error.message : 'An error occurred while adding account';
+        this.error = errorMessage;
+        notificationStore.showError(errorMessage);
+      } finally {
+        this.loading = false;
+      }
+    },
+
+    async validateAccount(accountId: number) {
+      const notificationStore = useNotificationStore();
+      try {
+        this.loading = true;
+        this.error = null;
+        const response = await axios.post<{ callerArn: string }>(`${API_BASE_URL}/accounts/${accountId}/validate`);
+        await this.fetchAccounts();
+        notificationStore.showSuccess(`Credentials are valid for ${response.data.callerArn}`);
+      } catch (error) {
+        const errorMessage = error instanceof AxiosError && error.response?.data?.error
+          ? error.response.data.error
+          : error instanceof Error ? error.message : 'An error occurred while validating the account';
         this.error = errorMessage;
         notificationStore.showError(errorMessage);
       } finally {
@@ -192,6 +269,22 @@ export const useSecurityStore = defineStore('security', {
       }
     },
 
+    // What the latest scans checked, and what they could not check
+    async fetchCoverage(accountId?: number) {
+      try {
+        const params = new URLSearchParams();
+        if (accountId) params.append('accountId', accountId.toString());
+
+        const response = await axios.get<ScanCoverage[]>(`${API_BASE_URL}/scans/coverage`, { params });
+        this.coverage = response.data;
+      } catch (error) {
+        const notificationStore = useNotificationStore();
+        const errorMessage = error instanceof Error ? error.message : 'An error occurred while fetching scan coverage';
+        this.error = errorMessage;
+        notificationStore.showError(errorMessage);
+      }
+    },
+
     async triggerScan(accountId?: number) {
       const notificationStore = useNotificationStore();
       try {
@@ -202,10 +295,27 @@ export const useSecurityStore = defineStore('security', {
           ? `${API_BASE_URL}/findings/scan/${accountId}`
           : `${API_BASE_URL}/findings/scan`;
 
-        await axios.post(endpoint);
+        const response = await axios.post<{ jobId: number }>(endpoint, { trigger: 'dashboard' });
+        const job = await this.waitForScanJob(response.data.jobId);
+
         await this.fetchFindings({ accountId });
         await this.fetchStats(accountId);
-        notificationStore.showSuccess('Scan completed successfully');
+        await this.fetchCoverage(accountId);
+        const gaps = this.coverage.filter(outcome => outcome.check && (outcome.status === 'error' || outcome.status === 'access_denied'));
+
+        if (job.status === 'CANCELLED') {
+          notificationStore.showNotification('Scan was cancelled', 'warning');
+        } else if (job.status === 'FAILED') {
+          const errorMessage = job.errors[job.errors.length - 1]?.message || 'Scan failed';
+          this.error = errorMessage;
+          notificationStore.showError(errorMessage);
+        } else if (job.errors.length > 0) {
+          notificationStore.showNotification(`Scan completed with ${job.errors.length} error(s)`, 'warning');
+        } else if (gaps.length > 0) {
+          notificationStore.showNotification(`Scan completed, but ${gaps.length} check(s) could not be run`, 'warning');
+        } else {
+          notificationStore.showSuccess('Scan completed successfully');
+        }
       } catch (error) {
         if (error instanceof AxiosError) {
           let errorMessage = '';
@@ -231,6 +341,28 @@ export const useSecurityStore = defineStore('security', {
       }
     },
 
+    async waitForScanJob(jobId: number): Promise<ScanJob> {
+      for (;;) {
+        const response = await axios.get<ScanJob>(`${API_BASE_URL}/scanner/jobs/${jobId}`);
+        this.scanJob = response.data;
+        if (['COMPLETED', 'FAILED', 'CANCELLED'].includes(response.data.status)) {
+          return response.data;
+        }
+        await new Promise(resolve => setTimeout(resolve, SCAN_JOB_POLL_INTERVAL_MS));
+      }
+    },
+
+    async cancelScan() {
+      if (!this.scanJob) return;
+      try {
+        await axios.post(`${API_BASE_URL}/scanner/jobs/${this.scanJob.id}/cancel`);
+      } catch (error) {
+        const notificationStore = useNotificationStore();
+        const errorMessage = error instanceof Error ? error.message : 'An error occurred while cancelling scan';
+        notificationStore.showError(errorMessage);
+      }
+    },
+
     async deleteAccount(accountId: number) {
       const notificationStore = useNotificationStore();
       try {
@@ -245,6 +377,7 @@ export const useSecurityStore = defineStore('security', {
           this.selectedRegion = null;
           this.findings = [];
           this.stats = null;
+          this.coverage = [];
         }
         
         await this.fetchAccounts();
@@ -263,6 +396,7 @@ export const useSecurityStore = defineStore('security', {
       if (accountId) {
         this.fetchFindings({ accountId });
         this.fetchStats(accountId);
+        this.fetchCoverage(accountId);
       }
     },
 
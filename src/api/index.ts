@@ -2,13 +2,20 @@ import express from 'express';
 import cors from 'cors';
 import { DatabaseService } from '../db/service';
 import { accountsRouter } from './routes/accounts';
+import { complianceRouter } from './routes/compliance';
 import { findingsRouter } from './routes/findings';
 import { scannerRouter } from './routes/scanner';
+import { scansRouter } from './routes/scans';
+import { suppressionsRouter } from './routes/suppressions';
 import { SecurityScanner } from '../scanner';
+import { ScanJobManager } from '../scanner/jobs';
+import { ComplianceEvaluator } from '../compliance';
 
 export function createApp(dbService: DatabaseService) {
   const app = express();
   const scanner = new SecurityScanner(dbService);
+  const jobManager = new ScanJobManager(dbService, scanner);
+  const complianceEvaluator = new ComplianceEvaluator(dbService);
 
   // Middleware
   app.use(cors());
@@ -23,9 +30,12 @@ export function createApp(dbService: DatabaseService) {
   });
 
   // Routes
-  app.use('/api/accounts', accountsRouter(dbService));
-  app.use('/api/findings', findingsRouter(dbService, scanner));
-  app.use('/api/scanner', scannerRouter(dbService));
+  app.use('/api/accounts', accountsRouter(dbService, scanner.getRegistry(), scanner.getCredentials()));
+  app.use('/api/findings', findingsRouter(dbService, jobManager));
+  app.use('/api/scans', scansRouter(dbService));
+  app.use('/api/compliance', complianceRouter(dbService, complianceEvaluator));
+  app.use('/api/suppressions', suppressionsRouter(dbService));
+  app.use('/api/scanner', scannerRouter(dbService, scanner, jobManager));
 
   return app;
 }
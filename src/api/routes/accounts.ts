@@ -1,14 +1,77 @@
 import { Router } from 'express';
 import { DatabaseService } from '../../db/service';
+import { AWSAccount, CREDENTIAL_SOURCES, CredentialSource, GLOBAL_REGION } from '../../db/schema';
+import { ScannerRegistry } from '../../scanner/registry';
+import { CredentialFactory, CredentialValidationError } from '../../scanner/credentials';
+import { maskSecret } from '../../utils/secrets';
 
-export function accountsRouter(dbService: DatabaseService) {
+type AccountCredentials = Pick<
+  AWSAccount,
+  'credentialSource' | 'accessKeyId' | 'secretAccessKey' | 'sessionToken' | 'roleArn' | 'externalId' | 'profile'
+>;
+
+const CREDENTIAL_FIELDS = ['credentialSource', 'accessKeyId', 'secretAccessKey', 'sessionToken', 'roleArn', 'externalId', 'profile'];
+
+const ACCOUNT_ID_PATTERN = /^\d{12}$/;
+
+const ROLE_ARN_PATTERN = /^arn:aws[a-z-]*:iam::\d{12}:role\/.+$/;
+
+// Validates the credential settings of a request body; static keys are the default source
+function parseCredentials(body: any): { credentials?: AccountCredentials; error?: string } {
+  const { credentialSource = 'static', accessKeyId, secretAccessKey, sessionToken, roleArn, externalId, profile } = body || {};
+
+  if (!CREDENTIAL_SOURCES.includes(credentialSource)) {
+    return { error: `credentialSource must be one of: ${CREDENTIAL_SOURCES.join(', ')}` };
+  }
+  if (credentialSource === 'static' && (!accessKeyId || !secretAccessKey)) {
+    return { error: 'accessKeyId and secretAccessKey are required for static credentials' };
+  }
+  if ((accessKeyId && !secretAccessKey) || (!accessKeyId && secretAccessKey)) {
+    return { error: 'accessKeyId and secretAccessKey must be provided together' };
+  }
+  if (credentialSource === 'assume_role' && !ROLE_ARN_PATTERN.test(roleArn || '')) {
+    return { error: 'A valid roleArn is required for assume_role credentials' };
+  }
+  if (credentialSource === 'profile' && !profile) {
+    return { error: 'profile is required for profile credentials' };
+  }
+
+  const source = credentialSource as CredentialSource;
+  // Keep only the settings the source uses: keys and profile double as the base identity of a role
+  const usesKeys = source === 'static' || source === 'assume_role';
+  const usesProfile = source === 'profile' || source === 'assume_role';
+  return {
+    credentials: {
+      credentialSource: source,
+      accessKeyId: usesKeys ? accessKeyId || undefined : undefined,
+      secretAccessKey: usesKeys ? secretAccessKey || undefined : undefined,
+      sessionToken: usesKeys ? sessionToken || undefined : undefined,
+      roleArn: source === 'assume_role' ? roleArn : undefined,
+      externalId: source === 'assume_role' ? externalId || undefined : undefined,
+      profile: usesProfile ? profile || undefined : undefined,
+    },
+  };
+}
+
+// Secrets never leave the server, and only the last characters of the access key ID are shown
+function toPublicAccount(account: AWSAccount) {
+  const { secretAccessKey, sessionToken, ...rest } = account;
+  return {
+    ...rest,
+    accessKeyId: maskSecret(account.accessKeyId),
+    hasSecretAccessKey: !!secretAccessKey,
+    hasSessionToken: !!sessionToken,
+  };
+}
+
+export function accountsRouter(dbService: DatabaseService, registry: ScannerRegistry, credentialFactory: CredentialFactory) {
   const router = Router();
 
   // Get all accounts
   router.get('/', async (req, res) => {
     try {
       const accounts = await dbService.getAccounts();
-      res.json(accounts);
+      res.json(accounts.map(toPublicAccount));
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       res.status(500).json({ error: errorMessage });
@@ -18,24 +81,98 @@ export function accountsRouter(dbService: DatabaseService) {
   // Add new account
   router.post('/', async (req, res) => {
     try {
-      const {
-        accountId,
-        accountName,
-        accessKeyId,
-        secretAccessKey,
-        sessionToken,
-      } = req.body;
+      const { accountId, accountName } = req.body;
+      if (!ACCOUNT_ID_PATTERN.test(accountId || '') || !accountName) {
+        return res.status(400).json({ error: 'accountName and a 12 digit accountId are required' });
+      }
+      const { credentials, error } = parseCredentials(req.body);
+      if (!credentials) {
+        return res.status(400).json({ error });
+      }
 
+      // Keys that don't work or belong to another AWS account are rejected before they are stored
+      const identity = await credentialFactory.validate({ accountId, accountName, ...credentials });
       const id = await dbService.addAccount({
         accountId,
         accountName,
-        accessKeyId,
-        secretAccessKey,
-        sessionToken,
+        ...credentials,
+        callerArn: identity.arn,
+        validatedAt: new Date(),
       });
 
-      res.status(201).json({ id });
+      res.status(201).json({ id, callerArn: identity.arn });
+    } catch (error) {
+      if (error instanceof CredentialValidationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
+  // Rename an account or rotate its credentials; new credentials are validated before they replace the old ones
+  router.patch('/:accountId', async (req, res) => {
+    try {
+      const account = await dbService.getAccount(parseInt(req.params.accountId));
+      if (!account) {
+        return res.status(404).json({ error: 'Account not found' });
+      }
+
+      const { accountId, accountName = account.accountName } = req.body || {};
+      if (accountId !== undefined && accountId !== account.accountId) {
+        return res.status(400).json({ error: 'accountId cannot be changed' });
+      }
+      if (typeof accountName !== 'string' || !accountName.trim()) {
+        return res.status(400).json({ error: 'accountName must be a non-empty string' });
+      }
+
+      let updated = { ...account, accountName };
+      if (CREDENTIAL_FIELDS.some(field => req.body[field] !== undefined)) {
+        const rotatesKeys = req.body.accessKeyId !== undefined || req.body.secretAccessKey !== undefined;
+        if (rotatesKeys && (!req.body.accessKeyId || !req.body.secretAccessKey)) {
+          return res.status(400).json({ error: 'accessKeyId and secretAccessKey must be provided together' });
+        }
+        // Settings left out of the request are kept, e.g. the role when only its base keys are rotated;
+        // a session token only belongs to the keys it was issued with
+        const { credentials, error } = parseCredentials({
+          ...account,
+          ...(rotatesKeys ? { sessionToken: undefined } : {}),
+          ...req.body,
+        });
+        if (!credentials) {
+          return res.status(400).json({ error });
+        }
+        const identity = await credentialFactory.validate({ ...updated, ...credentials });
+        updated = { ...updated, ...credentials, callerArn: identity.arn, validatedAt: new Date() };
+      }
+
+      await dbService.updateAccount(account.id, updated);
+      res.json(toPublicAccount((await dbService.getAccount(account.id))!));
+    } catch (error) {
+      if (error instanceof CredentialValidationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
+  // Check the stored credentials with STS and record the identity they belong to
+  router.post('/:accountId/validate', async (req, res) => {
+    try {
+      const account = await dbService.getAccount(parseInt(req.params.accountId));
+      if (!account) {
+        return res.status(404).json({ error: 'Account not found' });
+      }
+
+      const identity = await credentialFactory.validate(account);
+      const validatedAt = new Date();
+      await dbService.recordAccountValidation(account.id, identity.arn, validatedAt);
+      res.json({ valid: true, accountId: identity.accountId, callerArn: identity.arn, validatedAt });
     } catch (error) {
+      if (error instanceof CredentialValidationError) {
+        return res.status(400).json({ valid: false, error: error.message });
+      }
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       res.status(500).json({ error: errorMessage });
     }
@@ -57,6 +194,9 @@ export function accountsRouter(dbService: DatabaseService) {
     try {
       const { region, enabled } = req.body;
       const accountId = parseInt(req.params.accountId);
+      if (region === GLOBAL_REGION) {
+        return res.status(400).json({ error: `${GLOBAL_REGION} is reserved for findings of global scanner modules` });
+      }
 
       const id = await dbService.addRegion({
         accountId,
@@ -83,6 +223,40 @@ export function accountsRouter(dbService: DatabaseService) {
     }
   });
 
+  // Get scanner modules and whether they are enabled for the account
+  router.get('/:accountId/modules', async (req, res) => {
+    try {
+      const settings = await dbService.getModuleSettings(parseInt(req.params.accountId));
+      const disabled = new Set(settings.filter(s => !s.enabled).map(s => s.module));
+      res.json(registry.describe().map(module => ({
+        ...module,
+        enabled: !disabled.has(module.name),
+      })));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
+  // Enable or disable a scanner module for the account
+  router.patch('/:accountId/modules/:module', async (req, res) => {
+    try {
+      const { enabled } = req.body;
+      if (!registry.has(req.params.module)) {
+        return res.status(404).json({ error: 'Scanner module not found' });
+      }
+      if (typeof enabled !== 'boolean') {
+        return res.status(400).json({ error: 'enabled must be a boolean' });
+      }
+
+      await dbService.setModuleEnabled(parseInt(req.params.accountId), req.params.module, enabled);
+      res.status(200).json({ success: true });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
   // Delete account and all related data
   router.delete('/:accountId', async (req, res) => {
     try {
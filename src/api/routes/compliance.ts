@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import { DatabaseService } from '../../db/service';
+import { ComplianceEvaluator } from '../../compliance';
+
+export function complianceRouter(dbService: DatabaseService, evaluator: ComplianceEvaluator) {
+  const router = Router();
+
+  // List the supported compliance frameworks
+  router.get('/', (req, res) => {
+    res.json(evaluator.getCatalog().describe());
+  });
+
+  // Get control results and score for a framework, per account
+  router.get('/:framework', async (req, res) => {
+    try {
+      const framework = evaluator.getCatalog().get(req.params.framework);
+      if (!framework) {
+        return res.status(404).json({ error: `Unknown compliance framework: ${req.params.framework}` });
+      }
+
+      const { accountId, scanId } = req.query;
+      const filters = {
+        accountId: accountId ? parseInt(accountId as string) : undefined,
+        scanId: scanId ? parseInt(scanId as string) : undefined,
+      };
+      if (filters.accountId && !(await dbService.getAccount(filters.accountId))) {
+        return res.status(404).json({ error: 'Account not found' });
+      }
+      if (filters.scanId && !(await dbService.getScan(filters.scanId))) {
+        return res.status(404).json({ error: 'Scan not found' });
+      }
+
+      res.json(await evaluator.evaluate(framework, filters));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
+  return router;
+}
@@ -1,22 +1,34 @@
 import { Router } from 'express';
-import { DatabaseService } from '../../db/service';
-import { SecurityScanner } from '../../scanner';
+import { DatabaseService, SuppressedFilter } from '../../db/service';
+import { FINDING_STATUSES, FindingStatus } from '../../db/schema';
+import { ScanJobManager } from '../../scanner/jobs';
 import logger from '../../logger'; // assuming logger is imported from another file
 
-export function findingsRouter(dbService: DatabaseService, scanner: SecurityScanner) {
+const SUPPRESSED_FILTERS: SuppressedFilter[] = ['exclude', 'include', 'only'];
+
+export function findingsRouter(dbService: DatabaseService, jobManager: ScanJobManager) {
   const router = Router();
 
   // Get findings with optional filters
   router.get('/', async (req, res) => {
     try {
-      const { accountId, region, service, severity } = req.query;
-      console.log('Getting findings with filters:', { accountId, region, service, severity });
+      const { accountId, region, service, severity, scanId, status, suppressed } = req.query;
+      console.log('Getting findings with filters:', { accountId, region, service, severity, scanId, status, suppressed });
       
       const filters: any = {};
       if (accountId) filters.accountId = parseInt(accountId as string);
+      if (scanId) filters.scanId = parseInt(scanId as string);
       if (region) filters.region = region;
       if (service) filters.service = service;
       if (severity) filters.severity = severity;
+      if (status) filters.status = status;
+      if (req.query.assignee) filters.assignee = req.query.assignee;
+      if (suppressed) {
+        if (!SUPPRESSED_FILTERS.includes(suppressed as SuppressedFilter)) {
+          return res.status(400).json({ error: `suppressed must be one of: ${SUPPRESSED_FILTERS.join(', ')}` });
+        }
+        filters.suppressed = suppressed;
+      }
 
       const findings = await dbService.getFindings(filters);
       console.log(`Found ${findings.length} findings matching filters`);
@@ -31,11 +43,12 @@ export function findingsRouter(dbService: DatabaseService, scanner: SecurityScan
   // Get findings statistics
   router.get('/stats', async (req, res) => {
     try {
-      const { accountId } = req.query;
+      const { accountId, scanId } = req.query;
       console.log('Getting stats for account:', accountId);
       
       const stats = await dbService.getFindingStats(
-        accountId ? parseInt(accountId as string) : undefined
+        accountId ? parseInt(accountId as string) : undefined,
+        scanId ? parseInt(scanId as string) : undefined
       );
       console.log('Stats:', stats);
       res.json(stats);
@@ -74,10 +87,10 @@ export function findingsRouter(dbService: DatabaseService, scanner: SecurityScan
       }
       
       logger.info(`Starting scan for account: ${account.accountName} (${account.accountId})`);
-      const results = await scanner.scanAccount(accountId);
-      
-      logger.info(`Scan completed for account ${accountId}. Found ${results.length} findings`);
-      res.json(results);
+      const job = await jobManager.startAccountScan(accountId, req.body?.trigger || 'api');
+
+      logger.info(`Queued scan job ${job.id} for account ${accountId}`);
+      res.status(202).json({ jobId: job.id, status: job.status });
     } catch (error) {
       logger.error('Error during scan:', error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
@@ -89,9 +102,9 @@ export function findingsRouter(dbService: DatabaseService, scanner: SecurityScan
   router.post('/scan', async (req, res) => {
     try {
       logger.info('Starting scan for all accounts');
-      const results = await scanner.scanAllAccounts();
-      logger.info(`Completed scan for all accounts`);
-      res.json(results);
+      const job = await jobManager.startAllAccountsScan(req.body?.trigger || 'api');
+      logger.info(`Queued scan job ${job.id} for all accounts`);
+      res.status(202).json({ jobId: job.id, status: job.status });
     } catch (error) {
       logger.error('Error during scan:', error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
@@ -99,5 +112,120 @@ export function findingsRouter(dbService: DatabaseService, scanner: SecurityScan
     }
   });
 
+  // Get a finding with its comments and triage history
+  router.get('/:id', async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const finding = await dbService.getFinding(id);
+      if (!finding) {
+        return res.status(404).json({ error: 'Finding not found' });
+      }
+
+      const [comments, history] = await Promise.all([
+        dbService.getFindingComments(id),
+        dbService.getFindingEvents(id),
+      ]);
+      res.json({ ...finding, comments, history });
+    } catch (error) {
+      logger.error('Error getting finding:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
+  // Update the triage status, assignee or due date of a finding
+  router.patch('/:id', async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { status, assignee, dueDate, actor } = req.body;
+
+      if (!actor || typeof actor !== 'string') {
+        return res.status(400).json({ error: 'actor is required' });
+      }
+      if (status !== undefined && !FINDING_STATUSES.includes(status)) {
+        return res.status(400).json({ error: `status must be one of ${FINDING_STATUSES.join(', ')}` });
+      }
+      if (assignee !== undefined && assignee !== null && typeof assignee !== 'string') {
+        return res.status(400).json({ error: 'assignee must be a string or null' });
+      }
+      if (dueDate !== undefined && dueDate !== null && isNaN(Date.parse(dueDate))) {
+        return res.status(400).json({ error: 'dueDate must be a valid date or null' });
+      }
+
+      const finding = await dbService.updateFindingTriage(id, {
+        status: status as FindingStatus | undefined,
+        assignee: assignee === '' ? null : assignee,
+        dueDate: dueDate === undefined ? undefined : dueDate === null ? null : new Date(dueDate),
+      }, actor);
+      if (!finding) {
+        return res.status(404).json({ error: 'Finding not found' });
+      }
+
+      logger.info(`Finding ${id} updated by ${actor}`);
+      res.json(finding);
+    } catch (error) {
+      logger.error('Error updating finding:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
+  // Get the comment thread of a finding
+  router.get('/:id/comments', async (req, res) => {
+    try {
+      const comments = await dbService.getFindingComments(parseInt(req.params.id));
+      res.json(comments);
+    } catch (error) {
+      logger.error('Error getting comments:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
+  // Add a comment, optionally as a reply to another comment on the same finding
+  router.post('/:id/comments', async (req, res) => {
+    try {
+      const findingId = parseInt(req.params.id);
+      const { author, body, parentId } = req.body;
+
+      if (!author || typeof author !== 'string' || !body || typeof body !== 'string') {
+        return res.status(400).json({ error: 'author and body are required' });
+      }
+      if (!(await dbService.getFinding(findingId))) {
+        return res.status(404).json({ error: 'Finding not found' });
+      }
+      if (parentId !== undefined && parentId !== null) {
+        const parent = await dbService.getFindingComment(parseInt(parentId));
+        if (!parent || parent.findingId !== findingId) {
+          return res.status(400).json({ error: 'parentId must reference a comment on the same finding' });
+        }
+      }
+
+      const id = await dbService.addFindingComment({
+        findingId,
+        parentId: parentId ? parseInt(parentId) : undefined,
+        author,
+        body,
+      });
+      res.status(201).json(await dbService.getFindingComment(id));
+    } catch (error) {
+      logger.error('Error adding comment:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
+  // Get the audit trail of triage changes for a finding
+  router.get('/:id/history', async (req, res) => {
+    try {
+      const history = await dbService.getFindingEvents(parseInt(req.params.id));
+      res.json(history);
+    } catch (error) {
+      logger.error('Error getting finding history:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
   return router;
 }
@@ -1,28 +1,122 @@
 import { Router } from 'express';
 import { DatabaseService } from '../../db/service';
 import { SecurityScanner } from '../../scanner';
+import { ScanJobManager, isTerminalStatus } from '../../scanner/jobs';
+import { scanningPolicy } from '../../scanner/permissions';
 
-export function scannerRouter(dbService: DatabaseService) {
+export function scannerRouter(dbService: DatabaseService, scanner: SecurityScanner, jobManager: ScanJobManager) {
   const router = Router();
-  const scanner = new SecurityScanner(dbService);
 
-  // Scan a specific account
+  // List registered scanner modules
+  router.get('/modules', (req, res) => {
+    res.json(scanner.getRegistry().describe());
+  });
+
+  // Generate the least privileged IAM policy for the enabled modules of an account, or for every module
+  router.get('/policy', async (req, res) => {
+    try {
+      const { accountId, preflight } = req.query;
+      let modules = scanner.getRegistry().list();
+      if (accountId) {
+        const account = await dbService.getAccount(parseInt(accountId as string));
+        if (!account) {
+          return res.status(404).json({ error: 'Account not found' });
+        }
+        modules = await scanner.getEnabledModules(account.id);
+      }
+      res.json(scanningPolicy(modules, { preflight: preflight !== 'false' }));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
+  // Simulate the account's IAM permissions and report the modules whose checks would be denied
+  router.post('/preflight/:accountId', async (req, res) => {
+    try {
+      const accountId = parseInt(req.params.accountId);
+      const account = await dbService.getAccount(accountId);
+      if (!account) {
+        return res.status(404).json({ error: 'Account not found' });
+      }
+
+      res.json(await scanner.preflight(accountId, req.body?.principalArn));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
+  // Start a background scan of a specific account
   router.post('/scan/:accountId', async (req, res) => {
     try {
       const accountId = parseInt(req.params.accountId);
-      const findings = await scanner.scanAccount(accountId);
-      res.json({ success: true, findings });
+      const account = await dbService.getAccount(accountId);
+      if (!account) {
+        return res.status(404).json({ error: 'Account not found' });
+      }
+
+      const job = await jobManager.startAccountScan(accountId, req.body?.trigger || 'api');
+      res.status(202).json({ jobId: job.id, status: job.status });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       res.status(500).json({ error: errorMessage });
     }
   });
 
-  // Scan all accounts
+  // Start a background scan of all accounts
   router.post('/scan-all', async (req, res) => {
     try {
-      const findings = await scanner.scanAllAccounts();
-      res.json({ success: true, findings });
+      const job = await jobManager.startAllAccountsScan(req.body?.trigger || 'api');
+      res.status(202).json({ jobId: job.id, status: job.status });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
+  // List scan jobs, most recent first
+  router.get('/jobs', async (req, res) => {
+    try {
+      const { accountId, status, limit } = req.query;
+      const jobs = await dbService.getScanJobs({
+        accountId: accountId ? parseInt(accountId as string) : undefined,
+        status: status as string | undefined,
+        limit: limit ? parseInt(limit as string) : undefined,
+      });
+      res.json(jobs);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
+  // Get status, progress and errors of a scan job
+  router.get('/jobs/:jobId', async (req, res) => {
+    try {
+      const job = await dbService.getScanJob(parseInt(req.params.jobId));
+      if (!job) {
+        return res.status(404).json({ error: 'Scan job not found' });
+      }
+      res.json(job);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
+  // Cancel a running scan job
+  router.post('/jobs/:jobId/cancel', async (req, res) => {
+    try {
+      const jobId = parseInt(req.params.jobId);
+      const job = await dbService.getScanJob(jobId);
+      if (!job) {
+        return res.status(404).json({ error: 'Scan job not found' });
+      }
+      if (isTerminalStatus(job.status) || !jobManager.cancel(jobId)) {
+        return res.status(409).json({ error: `Scan job is not running (status: ${job.status})` });
+      }
+      res.status(202).json({ jobId, cancelling: true });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       res.status(500).json({ error: errorMessage });
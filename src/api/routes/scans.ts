@@ -0,0 +1,82 @@
+import { Router } from 'express';
+import { DatabaseService } from '../../db/service';
+
+export function scansRouter(dbService: DatabaseService) {
+  const router = Router();
+
+  // List scan history, most recent first
+  router.get('/', async (req, res) => {
+    try {
+      const { accountId, scanJobId, status, limit } = req.query;
+      const scans = await dbService.getScans({
+        accountId: accountId ? parseInt(accountId as string) : undefined,
+        scanJobId: scanJobId ? parseInt(scanJobId as string) : undefined,
+        status: status as string | undefined,
+        limit: limit ? parseInt(limit as string) : undefined,
+      });
+      res.json(scans);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
+  // Coverage of the latest completed scan of each account, or of one account
+  router.get('/coverage', async (req, res) => {
+    try {
+      const { accountId } = req.query;
+      res.json(await dbService.getScanCoverage({
+        accountId: accountId ? parseInt(accountId as string) : undefined,
+      }));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
+  // Get a single scan
+  router.get('/:scanId', async (req, res) => {
+    try {
+      const scan = await dbService.getScan(parseInt(req.params.scanId));
+      if (!scan) {
+        return res.status(404).json({ error: 'Scan not found' });
+      }
+      res.json(scan);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
+  // Get the findings produced by a scan
+  router.get('/:scanId/findings', async (req, res) => {
+    try {
+      const scanId = parseInt(req.params.scanId);
+      const scan = await dbService.getScan(scanId);
+      if (!scan) {
+        return res.status(404).json({ error: 'Scan not found' });
+      }
+      res.json(await dbService.getFindings({ scanId }));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
+  // Get what a scan checked in each region, module and check, and what it could not check
+  router.get('/:scanId/coverage', async (req, res) => {
+    try {
+      const scanId = parseInt(req.params.scanId);
+      const scan = await dbService.getScan(scanId);
+      if (!scan) {
+        return res.status(404).json({ error: 'Scan not found' });
+      }
+      res.json(await dbService.getScanCoverage({ scanId }));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,157 @@
+import { Router } from 'express';
+import { DatabaseService } from '../../db/service';
+import { SuppressionRule } from '../../db/schema';
+
+type SuppressionRuleInput = Omit<SuppressionRule, 'id' | 'createdAt' | 'updatedAt'>;
+
+const MATCH_FIELDS = ['accountId', 'region', 'service', 'resourceType', 'resourceIdPattern', 'finding'] as const;
+
+// Validates a request body into a rule, returning an error message if it is invalid
+function parseRule(body: any): { rule?: SuppressionRuleInput; error?: string } {
+  const { accountId, region, service, resourceType, resourceIdPattern, finding, justification, createdBy, expiresAt } = body || {};
+
+  if (typeof justification !== 'string' || justification.trim() === '') {
+    return { error: 'justification is required' };
+  }
+  if (accountId !== undefined && accountId !== null && !Number.isInteger(accountId)) {
+    return { error: 'accountId must be an integer' };
+  }
+  for (const field of ['region', 'service', 'resourceType', 'resourceIdPattern', 'finding', 'createdBy']) {
+    const value = body[field];
+    if (value !== undefined && value !== null && typeof value !== 'string') {
+      return { error: `${field} must be a string` };
+    }
+  }
+  if (!MATCH_FIELDS.some(field => body[field] !== undefined && body[field] !== null && body[field] !== '')) {
+    return { error: `At least one of ${MATCH_FIELDS.join(', ')} is required` };
+  }
+  if (expiresAt !== undefined && expiresAt !== null && isNaN(Date.parse(expiresAt))) {
+    return { error: 'expiresAt must be a valid date or null' };
+  }
+
+  return {
+    rule: {
+      accountId: accountId ?? undefined,
+      region: region || undefined,
+      service: service || undefined,
+      resourceType: resourceType || undefined,
+      resourceIdPattern: resourceIdPattern || undefined,
+      finding: finding || undefined,
+      justification: justification.trim(),
+      createdBy: createdBy || undefined,
+      expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+    },
+  };
+}
+
+export function suppressionsRouter(dbService: DatabaseService) {
+  const router = Router();
+
+  // List suppression rules, optionally including expired ones
+  router.get('/', async (req, res) => {
+    try {
+      const { accountId, includeExpired } = req.query;
+      const rules = await dbService.getSuppressionRules({
+        accountId: accountId ? parseInt(accountId as string) : undefined,
+        includeExpired: includeExpired === 'true',
+      });
+      res.json(rules);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
+  // Get a single suppression rule
+  router.get('/:id', async (req, res) => {
+    try {
+      const rule = await dbService.getSuppressionRule(parseInt(req.params.id));
+      if (!rule) {
+        return res.status(404).json({ error: 'Suppression rule not found' });
+      }
+      res.json(rule);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
+  // Create a suppression rule
+  router.post('/', async (req, res) => {
+    try {
+      const { rule, error } = parseRule(req.body);
+      if (!rule) {
+        return res.status(400).json({ error });
+      }
+      if (rule.accountId && !(await dbService.getAccount(rule.accountId))) {
+        return res.status(404).json({ error: 'Account not found' });
+      }
+
+      const id = await dbService.addSuppressionRule(rule);
+      res.status(201).json(await dbService.getSuppressionRule(id));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
+  // Replace a suppression rule's scope, justification or expiry
+  router.patch('/:id', async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await dbService.getSuppressionRule(id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Suppression rule not found' });
+      }
+
+      const { rule, error } = parseRule({
+        ...existing,
+        expiresAt: existing.expiresAt?.toISOString(),
+        ...req.body,
+      });
+      if (!rule) {
+        return res.status(400).json({ error });
+      }
+      if (rule.accountId && !(await dbService.getAccount(rule.accountId))) {
+        return res.status(404).json({ error: 'Account not found' });
+      }
+
+      await dbService.updateSuppressionRule(id, rule);
+      res.json(await dbService.getSuppressionRule(id));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
+  // Delete a suppression rule, unhiding the findings it matched
+  router.delete('/:id', async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (!(await dbService.getSuppressionRule(id))) {
+        return res.status(404).json({ error: 'Suppression rule not found' });
+      }
+      await dbService.deleteSuppressionRule(id);
+      res.status(204).send();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
+  // Get the findings a rule currently suppresses
+  router.get('/:id/findings', async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (!(await dbService.getSuppressionRule(id))) {
+        return res.status(404).json({ error: 'Suppression rule not found' });
+      }
+      res.json(await dbService.getSuppressedFindings(id));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
+  return router;
+}
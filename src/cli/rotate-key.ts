@@ -0,0 +1,33 @@
+import { config } from 'dotenv';
+import { DatabaseService } from '../db/service';
+import { SecretCipher, loadKey } from '../utils/secrets';
+import logger from '../logger';
+
+config();
+
+const USAGE = `Usage:
+  MASTER_KEY=<new key> PREVIOUS_MASTER_KEY=<old key> npm run rotate-key
+  Keys can also be read from files with MASTER_KEY_FILE and PREVIOUS_MASTER_KEY_FILE`;
+
+// Re-encrypts every stored secret with the new master key
+async function main() {
+  const previousKey = loadKey('PREVIOUS_MASTER_KEY');
+  if (!previousKey) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const dbService = new DatabaseService(SecretCipher.fromEnvironment());
+  const previous = new SecretCipher(previousKey);
+  await dbService.initialize();
+
+  const rotated = await dbService.encryptSecrets(previous);
+  logger.info(`Re-encrypted stored credentials of ${rotated} account(s) from master key ${previous.keyId}`);
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    logger.error('Key rotation failed:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,49 @@
+import { config } from 'dotenv';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DatabaseService } from '../db/service';
+import { SecurityScanner } from '../scanner';
+import logger from '../logger';
+
+config();
+
+const USAGE = `Usage:
+  npm run snapshot -- collect <accountId> <snapshotDir>   Scan an account and save the raw AWS API responses
+  npm run snapshot -- evaluate <snapshotDir> [outFile]    Evaluate the scanner rules against a saved snapshot offline`;
+
+async function collect(accountId: number, dir: string) {
+  const dbService = new DatabaseService();
+  await dbService.initialize();
+  const scanner = new SecurityScanner(dbService);
+
+  const findings = await scanner.scanAccount(accountId, { trigger: 'snapshot', snapshotDir: dir });
+  logger.info(`Collected snapshot of account ${accountId} in ${dir} (${findings.length} findings)`);
+}
+
+// Needs no database or AWS credentials: every API response comes from the snapshot
+async function evaluate(dir: string, outFile: string) {
+  const scanner = new SecurityScanner(new DatabaseService());
+  const findings = await scanner.evaluateSnapshot(dir);
+  await fs.writeFile(outFile, JSON.stringify(findings, null, 2));
+  logger.info(`Evaluated snapshot ${dir}: ${findings.length} findings written to ${outFile}`);
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  if (command === 'collect' && args.length === 2 && !isNaN(parseInt(args[0]))) {
+    await collect(parseInt(args[0]), args[1]);
+  } else if (command === 'evaluate' && (args.length === 1 || args.length === 2)) {
+    await evaluate(args[0], args[1] || path.join(args[0], 'findings.json'));
+  } else {
+    console.error(USAGE);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    logger.error('Snapshot command failed:', error);
+    process.exit(1);
+  });
+}
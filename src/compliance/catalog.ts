@@ -0,0 +1,47 @@
+export interface ComplianceControl {
+  id: string;
+  title: string;
+  // Scanner modules whose findings decide the control; it is not evaluated unless all of them ran
+  // and their scan coverage shows every check succeeded
+  services: string[];
+  // Finding titles that fail the control
+  findings: string[];
+}
+
+export interface ComplianceFramework {
+  id: string;
+  name: string;
+  version: string;
+  controls: ComplianceControl[];
+}
+
+export interface ComplianceFrameworkInfo {
+  id: string;
+  name: string;
+  version: string;
+  controlCount: number;
+}
+
+export class ComplianceCatalog {
+  private frameworks = new Map<string, ComplianceFramework>();
+
+  register(framework: ComplianceFramework): this {
+    if (this.frameworks.has(framework.id)) {
+      throw new Error(`Compliance framework ${framework.id} is already registered`);
+    }
+    this.frameworks.set(framework.id, framework);
+    return this;
+  }
+
+  get(id: string): ComplianceFramework | undefined {
+    return this.frameworks.get(id);
+  }
+
+  list(): ComplianceFramework[] {
+    return Array.from(this.frameworks.values());
+  }
+
+  describe(): ComplianceFrameworkInfo[] {
+    return this.list().map(({ id, name, version, controls }) => ({ id, name, version, controlCount: controls.length }));
+  }
+}
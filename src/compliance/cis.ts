@@ -0,0 +1,260 @@
+import { ComplianceControl, ComplianceFramework } from './catalog';
+
+// Every CIS monitoring control needs a metric filter on the log group of a multi-region trail,
+// with an alarm that notifies someone
+const monitoringControl = (id: string, title: string, finding: string): ComplianceControl => ({
+  id,
+  title,
+  services: ['CloudWatch', 'CloudTrail'],
+  findings: [finding, 'No Multi-Region Trail', 'Trail Not Integrated With CloudWatch Logs'],
+});
+
+export const CIS_AWS_FOUNDATIONS: ComplianceFramework = {
+  id: 'cis',
+  name: 'CIS Amazon Web Services Foundations Benchmark',
+  version: '1.5.0',
+  controls: [
+    {
+      id: '1.4',
+      title: "Ensure no 'root' user account access key exists",
+      services: ['IAM'],
+      findings: ['Root Access Keys Present'],
+    },
+    {
+      id: '1.5',
+      title: "Ensure MFA is enabled for the 'root' user account",
+      services: ['IAM'],
+      findings: ['Root Account MFA Not Enabled'],
+    },
+    {
+      id: '1.7',
+      title: "Eliminate use of the 'root' user for administrative and daily tasks",
+      services: ['IAM'],
+      findings: ['Recent Root Account Usage'],
+    },
+    {
+      id: '1.8',
+      title: 'Ensure IAM password policy requires minimum length of 14 or greater',
+      services: ['IAM'],
+      findings: ['No Password Policy', 'Password Policy Minimum Length Too Short'],
+    },
+    {
+      id: '1.9',
+      title: 'Ensure IAM password policy prevents password reuse',
+      services: ['IAM'],
+      findings: ['No Password Policy', 'Password Reuse Not Prevented'],
+    },
+    {
+      id: '1.10',
+      title: 'Ensure multi-factor authentication (MFA) is enabled for all IAM users that have a console password',
+      services: ['IAM'],
+      findings: ['Console User Without MFA'],
+    },
+    {
+      id: '1.12',
+      title: 'Ensure credentials unused for 45 days or greater are disabled',
+      services: ['IAM'],
+      findings: ['Unused Password', 'Unused Access Key'],
+    },
+    {
+      id: '1.13',
+      title: 'Ensure there is only one active access key available for any single IAM user',
+      services: ['IAM'],
+      findings: ['Multiple Access Keys'],
+    },
+    {
+      id: '1.14',
+      title: 'Ensure access keys are rotated every 90 days or less',
+      services: ['IAM'],
+      findings: ['Access Key Not Rotated'],
+    },
+    {
+      id: '1.16',
+      title: 'Ensure IAM policies that allow full "*:*" administrative privileges are not attached',
+      services: ['IAMPolicy'],
+      findings: ['Full Administrative Privileges'],
+    },
+    {
+      id: '2.1.1',
+      title: 'Ensure all S3 buckets employ encryption-at-rest',
+      services: ['S3'],
+      findings: ['Default Encryption Disabled'],
+    },
+    {
+      id: '2.1.2',
+      title: 'Ensure S3 Bucket Policy is set to deny HTTP requests',
+      services: ['S3'],
+      findings: ['Bucket Policy Does Not Enforce TLS'],
+    },
+    {
+      id: '2.1.3',
+      title: 'Ensure MFA Delete is enabled on S3 buckets',
+      services: ['S3'],
+      findings: ['MFA Delete Disabled'],
+    },
+    {
+      id: '2.1.5',
+      title: "Ensure that S3 Buckets are configured with 'Block public access (bucket settings)'",
+      services: ['S3'],
+      findings: ['Account Public Access Block Disabled', 'Bucket Public Access Block Disabled'],
+    },
+    {
+      id: '2.2.1',
+      title: 'Ensure EBS Volume Encryption is Enabled in all Regions',
+      services: ['EC2'],
+      findings: ['EBS Encryption By Default Disabled'],
+    },
+    {
+      id: '2.3.1',
+      title: 'Ensure that encryption is enabled for RDS Instances',
+      services: ['RDS'],
+      findings: ['Unencrypted Database Storage'],
+    },
+    {
+      id: '3.1',
+      title: 'Ensure CloudTrail is enabled in all regions',
+      services: ['CloudTrail'],
+      findings: [
+        'No CloudTrail Configured',
+        'CloudTrail Logging Disabled',
+        'No Multi-Region Trail',
+        'Management Events Not Fully Captured',
+      ],
+    },
+    {
+      id: '3.2',
+      title: 'Ensure CloudTrail log file validation is enabled',
+      services: ['CloudTrail'],
+      findings: ['Log File Validation Disabled'],
+    },
+    {
+      id: '3.3',
+      title: 'Ensure the S3 bucket used to store CloudTrail logs is not publicly accessible',
+      services: ['CloudTrail'],
+      findings: ['Trail Bucket Publicly Accessible'],
+    },
+    {
+      id: '3.4',
+      title: 'Ensure CloudTrail trails are integrated with CloudWatch Logs',
+      services: ['CloudTrail'],
+      findings: ['Trail Not Integrated With CloudWatch Logs', 'CloudWatch Logs Delivery Stale'],
+    },
+    {
+      id: '3.5',
+      title: 'Ensure AWS Config is enabled in all regions',
+      services: ['Config'],
+      findings: ['No Config Recorder', 'Config Recorder Stopped', 'Config Not Recording All Resources', 'Global Resources Not Recorded'],
+    },
+    {
+      id: '3.6',
+      title: 'Ensure S3 bucket access logging is enabled on the CloudTrail S3 bucket',
+      services: ['CloudTrail'],
+      findings: ['Trail Bucket Access Logging Disabled'],
+    },
+    {
+      id: '3.7',
+      title: 'Ensure CloudTrail logs are encrypted at rest using KMS CMKs',
+      services: ['CloudTrail'],
+      findings: ['Trail Not Encrypted With KMS'],
+    },
+    {
+      id: '3.8',
+      title: 'Ensure rotation for customer created symmetric CMKs is enabled',
+      services: ['KMS'],
+      findings: ['Key Rotation Disabled'],
+    },
+    monitoringControl(
+      '4.1',
+      'Ensure a log metric filter and alarm exist for unauthorized API calls',
+      'No Alarm for Unauthorized API Calls'
+    ),
+    monitoringControl(
+      '4.2',
+      'Ensure a log metric filter and alarm exist for Management Console sign-in without MFA',
+      'No Alarm for Console Sign-In Without MFA'
+    ),
+    monitoringControl(
+      '4.3',
+      "Ensure a log metric filter and alarm exist for usage of 'root' account",
+      'No Alarm for Root Account Usage'
+    ),
+    monitoringControl(
+      '4.4',
+      'Ensure a log metric filter and alarm exist for IAM policy changes',
+      'No Alarm for IAM Policy Changes'
+    ),
+    monitoringControl(
+      '4.5',
+      'Ensure a log metric filter and alarm exist for CloudTrail configuration changes',
+      'No Alarm for CloudTrail Configuration Changes'
+    ),
+    monitoringControl(
+      '4.6',
+      'Ensure a log metric filter and alarm exist for AWS Management Console authentication failures',
+      'No Alarm for Console Authentication Failures'
+    ),
+    monitoringControl(
+      '4.7',
+      'Ensure a log metric filter and alarm exist for disabling or scheduled deletion of customer created CMKs',
+      'No Alarm for KMS Key Disabling or Deletion'
+    ),
+    monitoringControl(
+      '4.8',
+      'Ensure a log metric filter and alarm exist for S3 bucket policy changes',
+      'No Alarm for S3 Bucket Policy Changes'
+    ),
+    monitoringControl(
+      '4.9',
+      'Ensure a log metric filter and alarm exist for AWS Config configuration changes',
+      'No Alarm for AWS Config Changes'
+    ),
+    monitoringControl(
+      '4.10',
+      'Ensure a log metric filter and alarm exist for security group changes',
+      'No Alarm for Security Group Changes'
+    ),
+    monitoringControl(
+      '4.11',
+      'Ensure a log metric filter and alarm exist for changes to Network Access Control Lists (NACL)',
+      'No Alarm for Network ACL Changes'
+    ),
+    monitoringControl(
+      '4.12',
+      'Ensure a log metric filter and alarm exist for changes to network gateways',
+      'No Alarm for Network Gateway Changes'
+    ),
+    monitoringControl(
+      '4.13',
+      'Ensure a log metric filter and alarm exist for route table changes',
+      'No Alarm for Route Table Changes'
+    ),
+    monitoringControl(
+      '4.14',
+      'Ensure a log metric filter and alarm exist for VPC changes',
+      'No Alarm for VPC Changes'
+    ),
+    monitoringControl(
+      '4.15',
+      'Ensure a log metric filter and alarm exists for AWS Organizations changes',
+      'No Alarm for AWS Organizations Changes'
+    ),
+    {
+      id: '4.16',
+      title: 'Ensure AWS Security Hub is enabled',
+      services: ['SecurityHub'],
+      findings: ['SecurityHub Not Enabled'],
+    },
+    {
+      id: '5.2',
+      title: 'Ensure no security groups allow ingress from 0.0.0.0/0 to remote server administration ports',
+      services: ['EC2'],
+      findings: ['Administrative Ports Open to the Internet'],
+    },
+    {
+      id: '5.4',
+      title: 'Ensure the default security group of every VPC restricts all traffic',
+      services: ['EC2'],
+      findings: ['Default Security Group Allows Traffic'],
+    },
+  ],
+};
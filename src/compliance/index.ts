@@ -0,0 +1,129 @@
+import { DatabaseService } from '../db/service';
+import { AssetFinding, Scan, ScanCoverage } from '../db/schema';
+import { ComplianceCatalog, ComplianceFramework } from './catalog';
+import { CIS_AWS_FOUNDATIONS } from './cis';
+
+export type ControlStatus = 'PASS' | 'FAIL' | 'NOT_EVALUATED';
+
+export interface ControlResult {
+  id: string;
+  title: string;
+  status: ControlStatus;
+  findingIds: number[];
+}
+
+export interface ComplianceSummary {
+  pass: number;
+  fail: number;
+  notEvaluated: number;
+  // Share of evaluated controls that pass, null when nothing could be evaluated
+  score: number | null;
+}
+
+export interface AccountComplianceReport extends ComplianceSummary {
+  accountId: number;
+  scanId?: number;
+  evaluatedAt?: Date;
+  controls: ControlResult[];
+}
+
+export interface ComplianceReport extends ComplianceSummary {
+  framework: { id: string; name: string; version: string };
+  accounts: AccountComplianceReport[];
+}
+
+export function createDefaultCatalog(): ComplianceCatalog {
+  return new ComplianceCatalog().register(CIS_AWS_FOUNDATIONS);
+}
+
+// A module decided a control only if it ran somewhere and every one of its checks succeeded everywhere it ran
+function serviceCovered(coverage: ScanCoverage[], service: string): boolean {
+  const outcomes = coverage.filter(outcome => outcome.service === service);
+  return outcomes.some(outcome => !outcome.check && outcome.status === 'ok') &&
+    outcomes.every(outcome => outcome.status === 'ok');
+}
+
+function summarize(statuses: ControlStatus[]): ComplianceSummary {
+  const pass = statuses.filter(status => status === 'PASS').length;
+  const fail = statuses.filter(status => status === 'FAIL').length;
+  const evaluated = pass + fail;
+  return {
+    pass,
+    fail,
+    notEvaluated: statuses.length - evaluated,
+    score: evaluated > 0 ? Math.round((pass / evaluated) * 1000) / 10 : null,
+  };
+}
+
+export class ComplianceEvaluator {
+  private dbService: DatabaseService;
+  private catalog: ComplianceCatalog;
+
+  constructor(dbService: DatabaseService, catalog: ComplianceCatalog = createDefaultCatalog()) {
+    this.dbService = dbService;
+    this.catalog = catalog;
+  }
+
+  getCatalog(): ComplianceCatalog {
+    return this.catalog;
+  }
+
+  // Evaluates a single scan, or the latest completed scan of each account (or one account)
+  async evaluate(framework: ComplianceFramework, filters: { accountId?: number; scanId?: number } = {}): Promise<ComplianceReport> {
+    const accounts: AccountComplianceReport[] = [];
+
+    if (filters.scanId) {
+      const scan = await this.dbService.getScan(filters.scanId);
+      if (!scan) {
+        throw new Error(`Scan ${filters.scanId} not found`);
+      }
+      accounts.push(await this.evaluateScan(framework, scan.accountId, scan));
+    } else {
+      const accountIds = filters.accountId
+        ? [filters.accountId]
+        : (await this.dbService.getAccounts()).map(account => account.id);
+      for (const accountId of accountIds) {
+        const [scan] = await this.dbService.getScans({ accountId, status: 'COMPLETED', limit: 1 });
+        accounts.push(await this.evaluateScan(framework, accountId, scan));
+      }
+    }
+
+    return {
+      framework: { id: framework.id, name: framework.name, version: framework.version },
+      ...summarize(accounts.flatMap(account => account.controls.map(control => control.status))),
+      accounts,
+    };
+  }
+
+  private async evaluateScan(framework: ComplianceFramework, accountId: number, scan?: Scan): Promise<AccountComplianceReport> {
+    const completed = scan?.status === 'COMPLETED' ? scan : undefined;
+    // Suppressed and risk-accepted findings still count against a control
+    const findings: AssetFinding[] = completed
+      ? await this.dbService.getFindings({ scanId: completed.id, suppressed: 'include' })
+      : [];
+    const coverage = completed ? await this.dbService.getScanCoverage({ scanId: completed.id }) : [];
+
+    const controls = framework.controls.map((control): ControlResult => {
+      const evaluated = !!completed && control.services.every(service => serviceCovered(coverage, service));
+      if (!evaluated) {
+        return { id: control.id, title: control.title, status: 'NOT_EVALUATED', findingIds: [] };
+      }
+
+      const findingIds = findings
+        .filter(finding => control.services.includes(finding.service) && control.findings.includes(finding.finding))
+        .map(finding => finding.id);
+      return { id: control.id, title: control.title, status: findingIds.length > 0 ? 'FAIL' : 'PASS', findingIds };
+    });
+
+    return {
+      accountId,
+      scanId: scan?.id,
+      evaluatedAt: scan?.completedAt,
+      ...summarize(controls.map(control => control.status)),
+      controls,
+    };
+  }
+}
+
+export { ComplianceCatalog } from './catalog';
+export type { ComplianceControl, ComplianceFramework, ComplianceFrameworkInfo } from './catalog';
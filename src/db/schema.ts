@@ -1,17 +1,33 @@
 import { Database } from 'sqlite3';
 import { open } from 'sqlite';
 
+export const CREDENTIAL_SOURCES = ['static', 'assume_role', 'profile', 'default_chain'] as const;
+
+export type CredentialSource = typeof CREDENTIAL_SOURCES[number];
+
 export interface AWSAccount {
   id: number;
   accountId: string;
   accountName: string;
-  accessKeyId: string;
-  secretAccessKey: string;
+  credentialSource: CredentialSource;
+  // Static keys; for assume_role they are the optional base identity
+  accessKeyId?: string;
+  secretAccessKey?: string;
   sessionToken?: string;
+  roleArn?: string;
+  externalId?: string;
+  // Named profile from the shared AWS config files; for assume_role the optional base identity
+  profile?: string;
+  // Identity STS GetCallerIdentity returned when the credentials were last validated
+  callerArn?: string;
+  validatedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Region recorded for findings of global scanner modules, which run once per account
+export const GLOBAL_REGION = 'global';
+
 export interface AWSRegion {
   id: number;
   accountId: number;
@@ -21,6 +37,19 @@ export interface AWSRegion {
   updatedAt: Date;
 }
 
+export interface AccountModuleSetting {
+  id: number;
+  accountId: number;
+  module: string;
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const FINDING_STATUSES = ['OPEN', 'ACKNOWLEDGED', 'IN_PROGRESS', 'RESOLVED', 'RISK_ACCEPTED'] as const;
+
+export type FindingStatus = typeof FINDING_STATUSES[number];
+
 export interface AssetFinding {
   id: number;
   accountId: number;
@@ -33,7 +62,139 @@ export interface AssetFinding {
   finding: string;
   description: string;
   remediation: string;
+  // Raw configuration that triggered the finding, e.g. the offending security group rules
+  evidence?: Record<string, unknown>;
+  scanId?: number;
+  fingerprint?: string;
+  status?: FindingStatus;
+  firstSeen?: Date;
+  lastSeen?: Date;
+  resolvedAt?: Date;
+  assignee?: string;
+  dueDate?: Date;
+  suppressionRuleId?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Hides matching findings from default queries; unset fields match anything
+export interface SuppressionRule {
+  id: number;
+  accountId?: number;
+  region?: string;
+  service?: string;
+  resourceType?: string;
+  // Glob pattern (* and ?) matched against the finding's resourceId
+  resourceIdPattern?: string;
+  finding?: string;
+  justification: string;
+  createdBy?: string;
+  expiresAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface FindingComment {
+  id: number;
+  findingId: number;
+  parentId?: number;
+  author: string;
+  body: string;
+  createdAt: Date;
+}
+
+// Audit record of a change to a finding's triage fields
+export interface FindingEvent {
+  id: number;
+  findingId: number;
+  actor: string;
+  field: 'status' | 'assignee' | 'dueDate';
+  oldValue?: string;
+  newValue?: string;
+  createdAt: Date;
+}
+
+export type ScanStatus = 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+
+export const COVERAGE_STATUSES = ['ok', 'error', 'access_denied', 'skipped'] as const;
+
+export type CoverageStatus = typeof COVERAGE_STATUSES[number];
+
+// Outcome of a scanner module, or of one of its checks, in a region of a scan
+export interface ScanCoverage {
+  id: number;
+  scanId: number;
+  region: string;
+  service: string;
+  // The check within the module; unset for the module as a whole
+  check?: string;
+  status: CoverageStatus;
+  message?: string;
+  createdAt: Date;
+}
+
+// AWS API calls of one account scan
+export interface ServiceRequestMetrics {
+  requests: number;
+  retries: number;
+  // Attempts AWS rejected with a throttling error
+  throttled: number;
+  // Requests that still failed with a throttling error after all retries
+  failed: number;
+}
+
+export interface RequestMetrics extends ServiceRequestMetrics {
+  byService: Record<string, ServiceRequestMetrics>;
+}
+
+export interface Scan {
+  id: number;
+  accountId: number;
+  scanJobId?: number;
+  status: ScanStatus;
+  regions: string[];
+  services: string[];
+  trigger: string;
+  error?: string;
+  findingsCount: number;
+  requestMetrics?: RequestMetrics;
+  startedAt: Date;
+  completedAt?: Date;
+}
+
+export type ScanJobStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+
+export interface ScanJobError {
+  accountId?: number;
+  region?: string;
+  service?: string;
+  message: string;
+}
+
+export interface AccountScanProgress {
+  status: ScanJobStatus;
+  regions: Record<string, ScanJobStatus>;
+  services: Record<string, ScanJobStatus>;
+  totalSteps: number;
+  completedSteps: number;
+}
+
+export interface ScanJobProgress {
+  totalSteps: number;
+  completedSteps: number;
+  accounts: Record<number, AccountScanProgress>;
+}
+
+export interface ScanJob {
+  id: number;
+  accountId?: number;
+  status: ScanJobStatus;
+  progress: ScanJobProgress;
+  errors: ScanJobError[];
+  findingsCount: number;
   createdAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
   updatedAt: Date;
 }
 
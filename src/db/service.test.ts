@@ -0,0 +1,134 @@
+import { randomBytes } from 'crypto';
+import { DatabaseService } from './service';
+import { AssetFinding, GLOBAL_REGION } from './schema';
+import { SecretCipher } from '../utils/secrets';
+
+type NewFinding = Parameters<DatabaseService['storeFindingsForAccount']>[2][number];
+
+function finding(overrides: Partial<NewFinding> = {}): NewFinding {
+  return {
+    region: 'us-east-1',
+    resourceId: 'sg-1',
+    resourceType: 'EC2_SECURITY_GROUP',
+    resourceName: 'web',
+    service: 'EC2',
+    severity: 'HIGH',
+    finding: 'Open SSH Access',
+    description: 'Security group web allows SSH from anywhere.',
+    remediation: 'Restrict SSH to known addresses.',
+    ...overrides,
+  };
+}
+
+describe('DatabaseService.storeFindingsForAccount', () => {
+  let db: DatabaseService;
+  let accountId: number;
+
+  beforeEach(async () => {
+    db = new DatabaseService(new SecretCipher(randomBytes(32)), ':memory:');
+    await db.initialize();
+    accountId = await db.addAccount({
+      accountId: '111122223333',
+      accountName: 'test',
+      credentialSource: 'profile',
+      profile: 'default',
+    });
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  // Stores the findings of one completed scan that covered the given region/service pairs
+  async function scan(findings: NewFinding[], covered: { region: string; service: string }[]) {
+    const scanId = await db.createScan({ accountId, regions: ['us-east-1', 'eu-west-1'], services: ['EC2', 'IAM'], trigger: 'manual' });
+    const changes = await db.storeFindingsForAccount(accountId, scanId, findings, covered);
+    await db.completeScan(scanId, 'COMPLETED', { findingsCount: findings.length });
+    return changes;
+  }
+
+  async function findingsByStatus(status: string): Promise<AssetFinding[]> {
+    return db.getFindings({ accountId, status, suppressed: 'include' });
+  }
+
+  it('keeps one finding per fingerprint across scans', async () => {
+    expect(await scan([finding()], [{ region: 'us-east-1', service: 'EC2' }])).toEqual({ new: 1, reopened: 0, resolved: 0 });
+    expect(await scan([finding({ severity: 'MEDIUM' })], [{ region: 'us-east-1', service: 'EC2' }]))
+      .toEqual({ new: 0, reopened: 0, resolved: 0 });
+
+    const open = await findingsByStatus('OPEN');
+    expect(open).toHaveLength(1);
+    expect(open[0].severity).toBe('MEDIUM');
+  });
+
+  it('resolves a finding that is gone and reopens it when it comes back', async () => {
+    const covered = [{ region: 'us-east-1', service: 'EC2' }];
+    await scan([finding()], covered);
+
+    expect(await scan([], covered)).toEqual({ new: 0, reopened: 0, resolved: 1 });
+    const [resolved] = await findingsByStatus('RESOLVED');
+    expect(resolved.resolvedAt).toBeDefined();
+
+    expect(await scan([finding()], covered)).toEqual({ new: 0, reopened: 1, resolved: 0 });
+    const [reopened] = await findingsByStatus('OPEN');
+    expect(reopened.id).toBe(resolved.id);
+    expect(reopened.resolvedAt).toBeUndefined();
+
+    const events = await db.getFindingEvents(reopened.id);
+    expect(events.map(event => [event.oldValue, event.newValue])).toEqual([['OPEN', 'RESOLVED'], ['RESOLVED', 'OPEN']]);
+  });
+
+  it('only resolves findings in region/service pairs the scan covered', async () => {
+    await scan([
+      finding(),
+      finding({ region: 'eu-west-1' }),
+      finding({ service: 'RDS', resourceId: 'db-1', finding: 'Publicly Accessible Database' }),
+    ], [{ region: 'us-east-1', service: 'EC2' }, { region: 'eu-west-1', service: 'EC2' }, { region: 'us-east-1', service: 'RDS' }]);
+
+    // EC2 failed in eu-west-1 and RDS did not run, so only the us-east-1 EC2 finding is known to be gone
+    expect(await scan([], [{ region: 'us-east-1', service: 'EC2' }])).toEqual({ new: 0, reopened: 0, resolved: 1 });
+
+    const open = await findingsByStatus('OPEN');
+    expect(open.map(item => `${item.region}/${item.service}`).sort()).toEqual(['eu-west-1/EC2', 'us-east-1/RDS']);
+
+    // The uncovered findings carry forward into the latest scan, which the default views show
+    const latest = await db.getFindings({ accountId });
+    expect(latest.map(item => `${item.region}/${item.service}`).sort()).toEqual(['eu-west-1/EC2', 'us-east-1/RDS']);
+  });
+
+  it('resolves findings of global modules in every region with * coverage', async () => {
+    const rootMfa = finding({
+      region: GLOBAL_REGION,
+      resourceId: 'account',
+      resourceType: 'IAM_ACCOUNT',
+      service: 'IAM',
+      finding: 'Root Account MFA Not Enabled',
+    });
+    await scan([rootMfa], [{ region: '*', service: 'IAM' }]);
+
+    // Coverage of another module in the region of the finding does not resolve it
+    expect(await scan([], [{ region: 'us-east-1', service: 'EC2' }])).toEqual({ new: 0, reopened: 0, resolved: 0 });
+    expect(await scan([], [{ region: '*', service: 'IAM' }])).toEqual({ new: 0, reopened: 0, resolved: 1 });
+  });
+
+  it('tracks findings that differ only by resource separately', async () => {
+    const key1 = finding({
+      region: GLOBAL_REGION,
+      resourceId: 'arn:aws:iam::111122223333:user/alice/access_key_1',
+      resourceType: 'IAM_ACCESS_KEY',
+      service: 'IAM',
+      finding: 'Access Key Not Rotated',
+    });
+    const key2 = { ...key1, resourceId: 'arn:aws:iam::111122223333:user/alice/access_key_2' };
+    const covered = [{ region: '*', service: 'IAM' }];
+
+    expect(await scan([key1, key2], covered)).toEqual({ new: 2, reopened: 0, resolved: 0 });
+    expect(await scan([key2], covered)).toEqual({ new: 0, reopened: 0, resolved: 1 });
+
+    const [open] = await findingsByStatus('OPEN');
+    const [resolved] = await findingsByStatus('RESOLVED');
+    expect(open.resourceId).toBe(key2.resourceId);
+    expect(resolved.resourceId).toBe(key1.resourceId);
+    expect(open.fingerprint).not.toBe(resolved.fingerprint);
+  });
+});
@@ -1,30 +1,111 @@
 import { Database } from 'sqlite';
 import { open } from 'sqlite';
 import { Database as SQLite3Database } from 'sqlite3';
-import { AWSAccount, AWSRegion, AssetFinding } from './schema';
+import {
+  AWSAccount,
+  AWSRegion,
+  AssetFinding,
+  AccountModuleSetting,
+  FindingComment,
+  FindingEvent,
+  FindingStatus,
+  RequestMetrics,
+  Scan,
+  ScanCoverage,
+  ScanJob,
+  ScanStatus,
+  SuppressionRule
+} from './schema';
+import { findingFingerprint } from '../utils/fingerprint';
+import { SecretCipher, isEncrypted } from '../utils/secrets';
 import logger from '../logger';
 
+export type SuppressedFilter = 'exclude' | 'include' | 'only';
+
+const AWS_ACCOUNTS_COLUMNS = `
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  account_id TEXT NOT NULL UNIQUE,
+  account_name TEXT NOT NULL,
+  credential_source TEXT NOT NULL DEFAULT 'static',
+  access_key_id TEXT,
+  secret_access_key TEXT,
+  session_token TEXT,
+  role_arn TEXT,
+  external_id TEXT,
+  profile TEXT,
+  caller_arn TEXT,
+  validated_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+`;
+
+// Account columns that are encrypted at rest
+const SECRET_COLUMNS = ['secret_access_key', 'session_token'];
+
+// Actor recorded for status changes made automatically by scans
+const SCANNER_ACTOR = 'scanner';
+
+// Matches the active suppression rules for the asset_findings row in the enclosing query
+const SUPPRESSION_RULE_MATCH = `
+  SELECT r.id FROM suppression_rules r
+  WHERE (r.account_id IS NULL OR r.account_id = asset_findings.account_id)
+    AND (r.region IS NULL OR r.region = asset_findings.region)
+    AND (r.service IS NULL OR r.service = asset_findings.service)
+    AND (r.resource_type IS NULL OR r.resource_type = asset_findings.resource_type)
+    AND (r.resource_id_pattern IS NULL OR asset_findings.resource_id GLOB r.resource_id_pattern)
+    AND (r.finding IS NULL OR r.finding = asset_findings.finding)
+    AND (r.expires_at IS NULL OR r.expires_at > CURRENT_TIMESTAMP)
+  ORDER BY r.id
+  LIMIT 1
+`;
+
+const FINDING_COLUMNS = `
+  id,
+  account_id as accountId,
+  region,
+  resource_id as resourceId,
+  resource_type as resourceType,
+  resource_name as resourceName,
+  service,
+  severity,
+  finding,
+  description,
+  remediation,
+  evidence,
+  scan_id as scanId,
+  fingerprint,
+  status,
+  first_seen as firstSeen,
+  last_seen as lastSeen,
+  resolved_at as resolvedAt,
+  assignee,
+  due_date as dueDate,
+  (${SUPPRESSION_RULE_MATCH}) as suppressionRuleId,
+  created_at as createdAt,
+  updated_at as updatedAt
+`;
+
 export class DatabaseService {
   private db?: Database;
+  private cipher?: SecretCipher;
+  private filename: string;
+
+  // Uses the master key from the environment unless a cipher is given; ':memory:' keeps the database in memory
+  constructor(cipher?: SecretCipher, filename = 'aws-security.db') {
+    this.cipher = cipher;
+    this.filename = filename;
+  }
 
   async initialize() {
+    this.cipher = this.cipher ?? SecretCipher.fromEnvironment();
     this.db = await open({
-      filename: 'aws-security.db',
+      filename: this.filename,
       driver: SQLite3Database
     });
 
     // Create tables if they don't exist
     await this.db.exec(`
-      CREATE TABLE IF NOT EXISTS aws_accounts (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        account_id TEXT NOT NULL UNIQUE,
-        account_name TEXT NOT NULL,
-        access_key_id TEXT NOT NULL,
-        secret_access_key TEXT NOT NULL,
-        session_token TEXT,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
+      CREATE TABLE IF NOT EXISTS aws_accounts (${AWS_ACCOUNTS_COLUMNS});
 
       CREATE TABLE IF NOT EXISTS aws_regions (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -48,11 +129,325 @@ export class DatabaseService {
         finding TEXT NOT NULL,
         description TEXT,
         remediation TEXT,
+        evidence TEXT,
+        scan_id INTEGER,
+        fingerprint TEXT,
+        status TEXT NOT NULL DEFAULT 'OPEN',
+        first_seen DATETIME DEFAULT CURRENT_TIMESTAMP,
+        last_seen DATETIME DEFAULT CURRENT_TIMESTAMP,
+        resolved_at DATETIME,
+        assignee TEXT,
+        due_date DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (account_id) REFERENCES aws_accounts(id),
+        FOREIGN KEY (scan_id) REFERENCES scans(id)
+      );
+
+      CREATE TABLE IF NOT EXISTS account_modules (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        account_id INTEGER NOT NULL,
+        module TEXT NOT NULL,
+        enabled BOOLEAN DEFAULT 1,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (account_id) REFERENCES aws_accounts(id),
+        UNIQUE(account_id, module)
+      );
+
+      CREATE TABLE IF NOT EXISTS scan_jobs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        account_id INTEGER,
+        status TEXT CHECK(status IN ('PENDING', 'RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED')) NOT NULL DEFAULT 'PENDING',
+        progress TEXT NOT NULL DEFAULT '{}',
+        errors TEXT NOT NULL DEFAULT '[]',
+        findings_count INTEGER NOT NULL DEFAULT 0,
+        started_at DATETIME,
+        completed_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (account_id) REFERENCES aws_accounts(id)
+      );
+
+      CREATE TABLE IF NOT EXISTS scans (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        account_id INTEGER NOT NULL,
+        scan_job_id INTEGER,
+        status TEXT CHECK(status IN ('RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED')) NOT NULL DEFAULT 'RUNNING',
+        regions TEXT NOT NULL DEFAULT '[]',
+        services TEXT NOT NULL DEFAULT '[]',
+        trigger TEXT NOT NULL DEFAULT 'manual',
+        error TEXT,
+        findings_count INTEGER NOT NULL DEFAULT 0,
+        request_metrics TEXT,
+        started_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        completed_at DATETIME,
+        FOREIGN KEY (account_id) REFERENCES aws_accounts(id),
+        FOREIGN KEY (scan_job_id) REFERENCES scan_jobs(id)
+      );
+
+      CREATE TABLE IF NOT EXISTS scan_findings (
+        scan_id INTEGER NOT NULL,
+        finding_id INTEGER NOT NULL,
+        PRIMARY KEY (scan_id, finding_id),
+        FOREIGN KEY (scan_id) REFERENCES scans(id),
+        FOREIGN KEY (finding_id) REFERENCES asset_findings(id)
+      );
+
+      CREATE TABLE IF NOT EXISTS scan_coverage (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        scan_id INTEGER NOT NULL,
+        region TEXT NOT NULL,
+        service TEXT NOT NULL,
+        check_name TEXT,
+        status TEXT CHECK(status IN ('ok', 'error', 'access_denied', 'skipped')) NOT NULL,
+        message TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (scan_id) REFERENCES scans(id)
+      );
+
+      CREATE TABLE IF NOT EXISTS finding_comments (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        finding_id INTEGER NOT NULL,
+        parent_id INTEGER,
+        author TEXT NOT NULL,
+        body TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (finding_id) REFERENCES asset_findings(id),
+        FOREIGN KEY (parent_id) REFERENCES finding_comments(id)
+      );
+
+      CREATE TABLE IF NOT EXISTS finding_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        finding_id INTEGER NOT NULL,
+        actor TEXT NOT NULL,
+        field TEXT NOT NULL,
+        old_value TEXT,
+        new_value TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (finding_id) REFERENCES asset_findings(id)
+      );
+
+      CREATE TABLE IF NOT EXISTS suppression_rules (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        account_id INTEGER,
+        region TEXT,
+        service TEXT,
+        resource_type TEXT,
+        resource_id_pattern TEXT,
+        finding TEXT,
+        justification TEXT NOT NULL,
+        created_by TEXT,
+        expires_at DATETIME,
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         FOREIGN KEY (account_id) REFERENCES aws_accounts(id)
       );
     `);
+
+    await this.migrate();
+  }
+
+  // Brings databases created by older versions up to the current schema
+  private async migrate() {
+    const db = this.ensureInitialized();
+
+    if (await this.addColumnIfMissing('aws_accounts', 'credential_source', "TEXT NOT NULL DEFAULT 'static'")) {
+      // Static keys are optional for the other credential sources, which needs a table rebuild in SQLite
+      await db.exec(`
+        BEGIN TRANSACTION;
+        CREATE TABLE aws_accounts_new (${AWS_ACCOUNTS_COLUMNS});
+        INSERT INTO aws_accounts_new (
+          id, account_id, account_name, credential_source, access_key_id, secret_access_key, session_token,
+          created_at, updated_at
+        )
+        SELECT
+          id, account_id, account_name, 'static', access_key_id, secret_access_key, session_token,
+          created_at, updated_at
+        FROM aws_accounts;
+        DROP TABLE aws_accounts;
+        ALTER TABLE aws_accounts_new RENAME TO aws_accounts;
+        COMMIT;
+      `);
+    }
+
+    await this.addColumnIfMissing('aws_accounts', 'caller_arn', 'TEXT');
+    await this.addColumnIfMissing('aws_accounts', 'validated_at', 'DATETIME');
+
+    if (await this.addColumnIfMissing('asset_findings', 'scan_id', 'INTEGER REFERENCES scans(id)')) {
+      // Group findings stored before scans were recorded into one legacy scan per account
+      const accounts = await db.all(`
+        SELECT account_id, MIN(created_at) as started_at, MAX(created_at) as completed_at, COUNT(*) as count
+        FROM asset_findings
+        WHERE scan_id IS NULL
+        GROUP BY account_id
+      `);
+      for (const account of accounts) {
+        const result = await db.run(
+          `INSERT INTO scans (account_id, status, trigger, findings_count, started_at, completed_at)
+           VALUES (?, 'COMPLETED', 'legacy', ?, ?, ?)`,
+          [account.account_id, account.count, account.started_at, account.completed_at]
+        );
+        await db.run(
+          'UPDATE asset_findings SET scan_id = ? WHERE account_id = ? AND scan_id IS NULL',
+          [result.lastID, account.account_id]
+        );
+      }
+    }
+
+    if (await this.addColumnIfMissing('asset_findings', 'fingerprint', 'TEXT')) {
+      await db.exec(`
+        ALTER TABLE asset_findings ADD COLUMN status TEXT NOT NULL DEFAULT 'OPEN';
+        ALTER TABLE asset_findings ADD COLUMN first_seen DATETIME;
+        ALTER TABLE asset_findings ADD COLUMN last_seen DATETIME;
+        ALTER TABLE asset_findings ADD COLUMN resolved_at DATETIME;
+      `);
+      await this.migrateFindingLifecycle();
+    }
+
+    await this.addColumnIfMissing('asset_findings', 'assignee', 'TEXT');
+    await this.addColumnIfMissing('asset_findings', 'due_date', 'DATETIME');
+    await this.addColumnIfMissing('asset_findings', 'evidence', 'TEXT');
+    await this.addColumnIfMissing('scans', 'request_metrics', 'TEXT');
+
+    await db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_asset_findings_scan ON asset_findings(scan_id);
+      CREATE INDEX IF NOT EXISTS idx_finding_comments_finding ON finding_comments(finding_id);
+      CREATE INDEX IF NOT EXISTS idx_finding_events_finding ON finding_events(finding_id);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_asset_findings_fingerprint ON asset_findings(account_id, fingerprint);
+      CREATE INDEX IF NOT EXISTS idx_scan_findings_finding ON scan_findings(finding_id);
+      CREATE INDEX IF NOT EXISTS idx_scans_account ON scans(account_id, status);
+      CREATE INDEX IF NOT EXISTS idx_scan_coverage_scan ON scan_coverage(scan_id);
+    `);
+
+    const encrypted = await this.encryptSecrets();
+    if (encrypted > 0) {
+      logger.info(`Encrypted stored credentials of ${encrypted} account(s)`);
+    }
+  }
+
+  // Encrypts plaintext secrets, and with a previous cipher re-encrypts secrets from an older master key.
+  // Returns the number of accounts updated
+  async encryptSecrets(previous?: SecretCipher): Promise<number> {
+    const db = this.ensureInitialized();
+    const cipher = this.ensureCipher();
+    const accounts = await db.all(`SELECT id, ${SECRET_COLUMNS.join(', ')} FROM aws_accounts`);
+    let updated = 0;
+
+    await db.run('BEGIN TRANSACTION');
+    try {
+      for (const account of accounts) {
+        const changes: Record<string, string> = {};
+        for (const column of SECRET_COLUMNS) {
+          const value: string | null = account[column];
+          // Secrets from an unknown key are left alone and fail loudly when read
+          if (!value || cipher.owns(value) || (isEncrypted(value) && !previous)) {
+            continue;
+          }
+          changes[column] = cipher.encrypt(isEncrypted(value) ? previous!.decrypt(value) : value);
+        }
+
+        const columns = Object.keys(changes);
+        if (columns.length > 0) {
+          await db.run(
+            `UPDATE aws_accounts SET ${columns.map(column => `${column} = ?`).join(', ')} WHERE id = ?`,
+            [...columns.map(column => changes[column]), account.id]
+          );
+          updated++;
+        }
+      }
+      await db.run('COMMIT');
+    } catch (error) {
+      await db.run('ROLLBACK');
+      throw error;
+    }
+
+    return updated;
+  }
+
+  // Collapses the per-scan finding rows of older versions into one row per fingerprint,
+  // keeping the scan history in scan_findings
+  private async migrateFindingLifecycle() {
+    const db = this.ensureInitialized();
+    await db.run('BEGIN TRANSACTION');
+    try {
+      await db.run('INSERT OR IGNORE INTO scan_findings (scan_id, finding_id) SELECT scan_id, id FROM asset_findings WHERE scan_id IS NOT NULL');
+
+      const rows = await db.all('SELECT id, account_id, region, service, resource_id, finding, created_at FROM asset_findings ORDER BY id');
+      const groups = new Map<string, any[]>();
+      for (const row of rows) {
+        const fingerprint = findingFingerprint({
+          accountId: row.account_id,
+          region: row.region,
+          service: row.service,
+          resourceId: row.resource_id,
+          finding: row.finding,
+        });
+        const key = `${row.account_id}:${fingerprint}`;
+        groups.set(key, [...(groups.get(key) || []), { ...row, fingerprint }]);
+      }
+
+      for (const group of groups.values()) {
+        // Keep the most recent row, which carries the latest scan and wording
+        const latest = group[group.length - 1];
+        const duplicateIds = group.slice(0, -1).map(row => row.id);
+
+        for (const duplicateId of duplicateIds) {
+          await db.run('UPDATE OR IGNORE scan_findings SET finding_id = ? WHERE finding_id = ?', [latest.id, duplicateId]);
+          await db.run('DELETE FROM scan_findings WHERE finding_id = ?', duplicateId);
+          await db.run('DELETE FROM asset_findings WHERE id = ?', duplicateId);
+        }
+        await db.run(
+          'UPDATE asset_findings SET fingerprint = ?, first_seen = ?, last_seen = ? WHERE id = ?',
+          [latest.fingerprint, group[0].created_at, latest.created_at, latest.id]
+        );
+      }
+
+      // Anything not seen by the latest completed scan of its account is no longer present
+      await db.run(`
+        UPDATE asset_findings
+        SET status = 'RESOLVED', resolved_at = CURRENT_TIMESTAMP
+        WHERE id NOT IN (
+          SELECT finding_id FROM scan_findings
+          WHERE scan_id IN (SELECT MAX(id) FROM scans WHERE status = 'COMPLETED' GROUP BY account_id)
+        )
+      `);
+
+      await db.run('COMMIT');
+    } catch (error) {
+      await db.run('ROLLBACK');
+      throw error;
+    }
+  }
+
+  private async addColumnIfMissing(table: string, column: string, definition: string): Promise<boolean> {
+    const db = this.ensureInitialized();
+    const columns = await db.all(`PRAGMA table_info(${table})`);
+    if (columns.some(c => c.name === column)) {
+      return false;
+    }
+    await db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    return true;
+  }
+
+  private ensureCipher(): SecretCipher {
+    if (!this.cipher) {
+      throw new Error('Database not initialized. Call initialize() first.');
+    }
+    return this.cipher;
+  }
+
+  private encryptSecret(value?: string): string | null {
+    return value ? this.ensureCipher().encrypt(value) : null;
+  }
+
+  private decryptSecret(value?: string | null): string | undefined {
+    return value ? this.ensureCipher().decrypt(value) : undefined;
+  }
+
+  async close(): Promise<void> {
+    await this.db?.close();
+    this.db = undefined;
   }
 
   private ensureInitialized() {
@@ -66,39 +461,70 @@ export class DatabaseService {
   async addAccount(account: Omit<AWSAccount, 'id' | 'createdAt' | 'updatedAt'>): Promise<number> {
     const db = this.ensureInitialized();
     const result = await db.run(
-      `INSERT INTO aws_accounts (account_id, account_name, access_key_id, secret_access_key, session_token)
-       VALUES (?, ?, ?, ?, ?)`,
-      [account.accountId, account.accountName, account.accessKeyId, account.secretAccessKey, account.sessionToken]
+      `INSERT INTO aws_accounts (
+        account_id, account_name, credential_source, access_key_id, secret_access_key, session_token,
+        role_arn, external_id, profile, caller_arn, validated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        account.accountId,
+        account.accountName,
+        account.credentialSource,
+        account.accessKeyId ?? null,
+        this.encryptSecret(account.secretAccessKey),
+        this.encryptSecret(account.sessionToken),
+        account.roleArn ?? null,
+        account.externalId ?? null,
+        account.profile ?? null,
+        account.callerArn ?? null,
+        account.validatedAt?.toISOString() ?? null,
+      ]
     );
     return result.lastID!;
   }
 
-  async getAccounts(): Promise<AWSAccount[]> {
+  // Replaces the name, credential settings and validation of an account; its AWS account ID never changes
+  async updateAccount(id: number, account: Omit<AWSAccount, 'id' | 'accountId' | 'createdAt' | 'updatedAt'>): Promise<void> {
     const db = this.ensureInitialized();
-    const accounts = await db.all(`
-      SELECT 
+    await db.run(
+      `UPDATE aws_accounts
+       SET account_name = ?, credential_source = ?, access_key_id = ?, secret_access_key = ?, session_token = ?,
+           role_arn = ?, external_id = ?, profile = ?, caller_arn = ?, validated_at = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [
+        account.accountName,
+        account.credentialSource,
+        account.accessKeyId ?? null,
+        this.encryptSecret(account.secretAccessKey),
+        this.encryptSecret(account.sessionToken),
+        account.roleArn ?? null,
+        account.externalId ?? null,
+        account.profile ?? null,
+        account.callerArn ?? null,
+        account.validatedAt?.toISOString() ?? null,
         id,
-        account_id as accountId,
-        account_name as accountName,
-        access_key_id as accessKeyId,
-        secret_access_key as secretAccessKey,
-        session_token as sessionToken,
-        created_at as createdAt,
-        updated_at as updatedAt
-      FROM aws_accounts
-    `);
-    return accounts;
+      ]
+    );
+  }
+
+  async recordAccountValidation(id: number, callerArn: string, validatedAt: Date): Promise<void> {
+    const db = this.ensureInitialized();
+    await db.run(
+      'UPDATE aws_accounts SET caller_arn = ?, validated_at = ? WHERE id = ?',
+      [callerArn, validatedAt.toISOString(), id]
+    );
+  }
+
+  async getAccounts(): Promise<AWSAccount[]> {
+    const db = this.ensureInitialized();
+    const accounts = await db.all('SELECT * FROM aws_accounts');
+    return accounts.map(account => this.mapAccount(account));
   }
 
   async getAccount(id: number): Promise<AWSAccount | undefined> {
     const db = this.ensureInitialized();
     logger.info(`Getting account details for ID: ${id}`);
     const account = await db.get(`
-      SELECT 
-        id, account_id, account_name, access_key_id, secret_access_key, session_token,
-        created_at, updated_at
-      FROM aws_accounts 
-      WHERE id = ?
+      SELECT * FROM aws_accounts WHERE id = ?
     `, id);
     
     if (!account) {
@@ -107,13 +533,23 @@ export class DatabaseService {
     }
 
     logger.info(`Found account: ${account.account_name} (${account.account_id})`);
+    return this.mapAccount(account);
+  }
+
+  private mapAccount(account: any): AWSAccount {
     return {
       id: account.id,
       accountId: account.account_id,
       accountName: account.account_name,
-      accessKeyId: account.access_key_id,
-      secretAccessKey: account.secret_access_key,
-      sessionToken: account.session_token,
+      credentialSource: account.credential_source,
+      accessKeyId: account.access_key_id ?? undefined,
+      secretAccessKey: this.decryptSecret(account.secret_access_key),
+      sessionToken: this.decryptSecret(account.session_token),
+      roleArn: account.role_arn ?? undefined,
+      externalId: account.external_id ?? undefined,
+      profile: account.profile ?? undefined,
+      callerArn: account.caller_arn ?? undefined,
+      validatedAt: account.validated_at ? new Date(account.validated_at) : undefined,
       createdAt: new Date(account.created_at),
       updatedAt: new Date(account.updated_at)
     };
@@ -123,11 +559,25 @@ export class DatabaseService {
     const db = this.ensureInitialized();
     await db.run('BEGIN TRANSACTION');
     try {
-      // Delete findings first (foreign key constraint)
+      // Delete triage history, scan history and findings first (foreign key constraint)
+      await db.run('DELETE FROM finding_comments WHERE finding_id IN (SELECT id FROM asset_findings WHERE account_id = ?)', id);
+      await db.run('DELETE FROM finding_events WHERE finding_id IN (SELECT id FROM asset_findings WHERE account_id = ?)', id);
+      await db.run('DELETE FROM scan_findings WHERE scan_id IN (SELECT id FROM scans WHERE account_id = ?)', id);
+      await db.run('DELETE FROM scan_coverage WHERE scan_id IN (SELECT id FROM scans WHERE account_id = ?)', id);
       await db.run('DELETE FROM asset_findings WHERE account_id = ?', id);
+      await db.run('DELETE FROM scans WHERE account_id = ?', id);
       
       // Delete regions (foreign key constraint)
       await db.run('DELETE FROM aws_regions WHERE account_id = ?', id);
+
+      // Delete scanner module settings (foreign key constraint)
+      await db.run('DELETE FROM account_modules WHERE account_id = ?', id);
+
+      // Delete account-specific suppression rules (foreign key constraint)
+      await db.run('DELETE FROM suppression_rules WHERE account_id = ?', id);
+
+      // Delete scan jobs (foreign key constraint)
+      await db.run('DELETE FROM scan_jobs WHERE account_id = ?', id);
       
       // Finally delete the account
       await db.run('DELETE FROM aws_accounts WHERE id = ?', id);
@@ -168,14 +618,414 @@ export class DatabaseService {
     );
   }
 
+  // Scanner Module Operations
+  async getModuleSettings(accountId: number): Promise<AccountModuleSetting[]> {
+    const db = this.ensureInitialized();
+    const settings = await db.all(`
+      SELECT
+        id,
+        account_id as accountId,
+        module,
+        enabled,
+        created_at as createdAt,
+        updated_at as updatedAt
+      FROM account_modules
+      WHERE account_id = ?
+    `, accountId);
+
+    return settings.map(setting => ({
+      ...setting,
+      enabled: Boolean(setting.enabled),
+      createdAt: new Date(setting.createdAt),
+      updatedAt: new Date(setting.updatedAt)
+    }));
+  }
+
+  async setModuleEnabled(accountId: number, module: string, enabled: boolean): Promise<void> {
+    const db = this.ensureInitialized();
+    await db.run(
+      `INSERT INTO account_modules (account_id, module, enabled)
+       VALUES (?, ?, ?)
+       ON CONFLICT(account_id, module) DO UPDATE SET
+         enabled = excluded.enabled,
+         updated_at = CURRENT_TIMESTAMP`,
+      [accountId, module, enabled]
+    );
+  }
+
+  // Scan Operations
+  async createScan(scan: Pick<Scan, 'accountId' | 'scanJobId' | 'regions' | 'services' | 'trigger'>): Promise<number> {
+    const db = this.ensureInitialized();
+    const result = await db.run(
+      `INSERT INTO scans (account_id, scan_job_id, status, regions, services, trigger)
+       VALUES (?, ?, 'RUNNING', ?, ?, ?)`,
+      [
+        scan.accountId,
+        scan.scanJobId ?? null,
+        JSON.stringify(scan.regions),
+        JSON.stringify(scan.services),
+        scan.trigger,
+      ]
+    );
+    return result.lastID!;
+  }
+
+  async completeScan(
+    id: number,
+    status: Exclude<ScanStatus, 'RUNNING'>,
+    details: { findingsCount?: number; error?: string; requestMetrics?: RequestMetrics } = {}
+  ): Promise<void> {
+    const db = this.ensureInitialized();
+    await db.run(
+      `UPDATE scans
+       SET status = ?, findings_count = ?, error = ?, request_metrics = ?, completed_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [
+        status,
+        details.findingsCount || 0,
+        details.error ?? null,
+        details.requestMetrics ? JSON.stringify(details.requestMetrics) : null,
+        id,
+      ]
+    );
+  }
+
+  async getScan(id: number): Promise<Scan | undefined> {
+    const db = this.ensureInitialized();
+    const scan = await db.get('SELECT * FROM scans WHERE id = ?', id);
+    return scan ? this.mapScan(scan) : undefined;
+  }
+
+  async getScans(filters: { accountId?: number; scanJobId?: number; status?: string; limit?: number } = {}): Promise<Scan[]> {
+    const db = this.ensureInitialized();
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.accountId) {
+      conditions.push('account_id = ?');
+      params.push(filters.accountId);
+    }
+    if (filters.scanJobId) {
+      conditions.push('scan_job_id = ?');
+      params.push(filters.scanJobId);
+    }
+    if (filters.status) {
+      conditions.push('status = ?');
+      params.push(filters.status);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const scans = await db.all(`
+      SELECT * FROM scans
+      ${whereClause}
+      ORDER BY id DESC
+      LIMIT ?
+    `, [...params, filters.limit || 50]);
+
+    return scans.map(scan => this.mapScan(scan));
+  }
+
+  private mapScan(scan: any): Scan {
+    return {
+      id: scan.id,
+      accountId: scan.account_id,
+      scanJobId: scan.scan_job_id ?? undefined,
+      status: scan.status,
+      regions: JSON.parse(scan.regions),
+      services: JSON.parse(scan.services),
+      trigger: scan.trigger,
+      error: scan.error ?? undefined,
+      findingsCount: scan.findings_count,
+      requestMetrics: scan.request_metrics ? JSON.parse(scan.request_metrics) : undefined,
+      startedAt: new Date(scan.started_at),
+      completedAt: scan.completed_at ? new Date(scan.completed_at) : undefined
+    };
+  }
+
+  async storeScanCoverage(scanId: number, outcomes: Omit<ScanCoverage, 'id' | 'scanId' | 'createdAt'>[]): Promise<void> {
+    const db = this.ensureInitialized();
+    await db.run('BEGIN TRANSACTION');
+    try {
+      for (const outcome of outcomes) {
+        await db.run(
+          'INSERT INTO scan_coverage (scan_id, region, service, check_name, status, message) VALUES (?, ?, ?, ?, ?, ?)',
+          [scanId, outcome.region, outcome.service, outcome.check ?? null, outcome.status, outcome.message ?? null]
+        );
+      }
+      await db.run('COMMIT');
+    } catch (error) {
+      await db.run('ROLLBACK');
+      throw error;
+    }
+  }
+
+  // Coverage of one scan, or by default of the latest completed scan of each account
+  async getScanCoverage(filters: { scanId?: number; accountId?: number } = {}): Promise<ScanCoverage[]> {
+    const db = this.ensureInitialized();
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.scanId) {
+      conditions.push('scan_id = ?');
+      params.push(filters.scanId);
+    } else {
+      conditions.push("scan_id IN (SELECT MAX(id) FROM scans WHERE status = 'COMPLETED' GROUP BY account_id)");
+    }
+    if (filters.accountId) {
+      conditions.push('scan_id IN (SELECT id FROM scans WHERE account_id = ?)');
+      params.push(filters.accountId);
+    }
+
+    const coverage = await db.all(`
+      SELECT * FROM scan_coverage
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY scan_id, region, service, check_name IS NOT NULL, check_name
+    `, params);
+
+    return coverage.map(outcome => ({
+      id: outcome.id,
+      scanId: outcome.scan_id,
+      region: outcome.region,
+      service: outcome.service,
+      check: outcome.check_name ?? undefined,
+      status: outcome.status,
+      message: outcome.message ?? undefined,
+      createdAt: new Date(outcome.created_at)
+    }));
+  }
+
+  // Restricts a query to findings seen by one scan, or by default by the latest completed scan of each account
+  private scanCondition(scanId?: number): { condition: string; params: any[] } {
+    if (scanId) {
+      return { condition: 'id IN (SELECT finding_id FROM scan_findings WHERE scan_id = ?)', params: [scanId] };
+    }
+    return {
+      condition: `id IN (
+        SELECT finding_id FROM scan_findings
+        WHERE scan_id IN (SELECT MAX(id) FROM scans WHERE status = 'COMPLETED' GROUP BY account_id)
+      )`,
+      params: []
+    };
+  }
+
+  // Scan Job Operations
+  async createScanJob(accountId?: number): Promise<number> {
+    const db = this.ensureInitialized();
+    const result = await db.run(
+      'INSERT INTO scan_jobs (account_id, status) VALUES (?, ?)',
+      [accountId ?? null, 'PENDING']
+    );
+    return result.lastID!;
+  }
+
+  async updateScanJob(id: number, update: Partial<Pick<ScanJob, 'status' | 'progress' | 'errors' | 'findingsCount'>>): Promise<void> {
+    const db = this.ensureInitialized();
+    const assignments: string[] = ['updated_at = CURRENT_TIMESTAMP'];
+    const params: any[] = [];
+
+    if (update.status) {
+      assignments.push('status = ?');
+      params.push(update.status);
+      if (update.status === 'RUNNING') {
+        assignments.push('started_at = CURRENT_TIMESTAMP');
+      } else if (update.status !== 'PENDING') {
+        assignments.push('completed_at = CURRENT_TIMESTAMP');
+      }
+    }
+    if (update.progress) {
+      assignments.push('progress = ?');
+      params.push(JSON.stringify(update.progress));
+    }
+    if (update.errors) {
+      assignments.push('errors = ?');
+      params.push(JSON.stringify(update.errors));
+    }
+    if (update.findingsCount !== undefined) {
+      assignments.push('findings_count = ?');
+      params.push(update.findingsCount);
+    }
+
+    await db.run(`UPDATE scan_jobs SET ${assignments.join(', ')} WHERE id = ?`, [...params, id]);
+  }
+
+  async getScanJob(id: number): Promise<ScanJob | undefined> {
+    const db = this.ensureInitialized();
+    const job = await db.get('SELECT * FROM scan_jobs WHERE id = ?', id);
+    return job ? this.mapScanJob(job) : undefined;
+  }
+
+  async getScanJobs(filters: { accountId?: number; status?: string; limit?: number } = {}): Promise<ScanJob[]> {
+    const db = this.ensureInitialized();
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.accountId) {
+      conditions.push('account_id = ?');
+      params.push(filters.accountId);
+    }
+    if (filters.status) {
+      conditions.push('status = ?');
+      params.push(filters.status);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const jobs = await db.all(`
+      SELECT * FROM scan_jobs
+      ${whereClause}
+      ORDER BY created_at DESC, id DESC
+      LIMIT ?
+    `, [...params, filters.limit || 50]);
+
+    return jobs.map(job => this.mapScanJob(job));
+  }
+
+  // Jobs and scans cannot survive a restart, so anything still marked active was interrupted
+  async failInterruptedScanJobs(): Promise<{ scanJobs: number; scans: number }> {
+    const db = this.ensureInitialized();
+    const jobs = await db.run(`
+      UPDATE scan_jobs
+      SET status = 'FAILED',
+          errors = json_insert(errors, '$[#]', json_object('message', 'Scan was interrupted by a server restart')),
+          completed_at = CURRENT_TIMESTAMP,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE status IN ('PENDING', 'RUNNING')
+    `);
+    const scans = await db.run(`
+      UPDATE scans
+      SET status = 'FAILED',
+          error = 'Scan was interrupted by a server restart',
+          completed_at = CURRENT_TIMESTAMP
+      WHERE status = 'RUNNING'
+    `);
+    return { scanJobs: jobs.changes || 0, scans: scans.changes || 0 };
+  }
+
+  private mapScanJob(job: any): ScanJob {
+    return {
+      id: job.id,
+      accountId: job.account_id ?? undefined,
+      status: job.status,
+      progress: JSON.parse(job.progress),
+      errors: JSON.parse(job.errors),
+      findingsCount: job.findings_count,
+      createdAt: new Date(job.created_at),
+      startedAt: job.started_at ? new Date(job.started_at) : undefined,
+      completedAt: job.completed_at ? new Date(job.completed_at) : undefined,
+      updatedAt: new Date(job.updated_at)
+    };
+  }
+
+  // Suppression Rule Operations
+  async addSuppressionRule(rule: Omit<SuppressionRule, 'id' | 'createdAt' | 'updatedAt'>): Promise<number> {
+    const db = this.ensureInitialized();
+    const result = await db.run(
+      `INSERT INTO suppression_rules (
+        account_id, region, service, resource_type, resource_id_pattern, finding,
+        justification, created_by, expires_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, datetime(?))`,
+      [
+        rule.accountId ?? null,
+        rule.region ?? null,
+        rule.service ?? null,
+        rule.resourceType ?? null,
+        rule.resourceIdPattern ?? null,
+        rule.finding ?? null,
+        rule.justification,
+        rule.createdBy ?? null,
+        rule.expiresAt?.toISOString() ?? null,
+      ]
+    );
+    return result.lastID!;
+  }
+
+  async updateSuppressionRule(id: number, rule: Omit<SuppressionRule, 'id' | 'createdAt' | 'updatedAt'>): Promise<void> {
+    const db = this.ensureInitialized();
+    await db.run(
+      `UPDATE suppression_rules
+       SET account_id = ?, region = ?, service = ?, resource_type = ?, resource_id_pattern = ?, finding = ?,
+           justification = ?, created_by = ?, expires_at = datetime(?), updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [
+        rule.accountId ?? null,
+        rule.region ?? null,
+        rule.service ?? null,
+        rule.resourceType ?? null,
+        rule.resourceIdPattern ?? null,
+        rule.finding ?? null,
+        rule.justification,
+        rule.createdBy ?? null,
+        rule.expiresAt?.toISOString() ?? null,
+        id,
+      ]
+    );
+  }
+
+  async deleteSuppressionRule(id: number): Promise<void> {
+    const db = this.ensureInitialized();
+    await db.run('DELETE FROM suppression_rules WHERE id = ?', id);
+  }
+
+  async getSuppressionRule(id: number): Promise<SuppressionRule | undefined> {
+    const db = this.ensureInitialized();
+    const rule = await db.get('SELECT * FROM suppression_rules WHERE id = ?', id);
+    return rule ? this.mapSuppressionRule(rule) : undefined;
+  }
+
+  async getSuppressionRules(filters: { accountId?: number; includeExpired?: boolean } = {}): Promise<SuppressionRule[]> {
+    const db = this.ensureInitialized();
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.accountId) {
+      conditions.push('(account_id IS NULL OR account_id = ?)');
+      params.push(filters.accountId);
+    }
+    if (!filters.includeExpired) {
+      conditions.push('(expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP)');
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rules = await db.all(`SELECT * FROM suppression_rules ${whereClause} ORDER BY id`, params);
+    return rules.map(rule => this.mapSuppressionRule(rule));
+  }
+
+  // Findings currently hidden by a rule, across the whole finding lifecycle
+  async getSuppressedFindings(ruleId: number): Promise<AssetFinding[]> {
+    const db = this.ensureInitialized();
+    const findings = await db.all(`
+      SELECT * FROM (SELECT ${FINDING_COLUMNS} FROM asset_findings)
+      WHERE suppressionRuleId = ?
+      ORDER BY createdAt DESC
+    `, ruleId);
+    return findings.map(finding => this.mapFinding(finding));
+  }
+
+  private mapSuppressionRule(rule: any): SuppressionRule {
+    return {
+      id: rule.id,
+      accountId: rule.account_id ?? undefined,
+      region: rule.region ?? undefined,
+      service: rule.service ?? undefined,
+      resourceType: rule.resource_type ?? undefined,
+      resourceIdPattern: rule.resource_id_pattern ?? undefined,
+      finding: rule.finding ?? undefined,
+      justification: rule.justification,
+      createdBy: rule.created_by ?? undefined,
+      expiresAt: rule.expires_at ? new Date(rule.expires_at) : undefined,
+      createdAt: new Date(rule.created_at),
+      updatedAt: new Date(rule.updated_at)
+    };
+  }
+
   // Asset Finding Operations
-  async addFinding(finding: Omit<AssetFinding, 'id' | 'createdAt' | 'updatedAt'>): Promise<number> {
+  async addFinding(finding: Omit<AssetFinding, 'id' | 'fingerprint' | 'createdAt' | 'updatedAt'>): Promise<number> {
     const db = this.ensureInitialized();
     const result = await db.run(
       `INSERT INTO asset_findings (
         account_id, region, resource_id, resource_type, resource_name,
-        service, severity, finding, description, remediation
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        service, severity, finding, description, remediation, evidence, scan_id, fingerprint,
+        first_seen, last_seen
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)`,
       [
         finding.accountId,
         finding.region,
@@ -187,36 +1037,125 @@ export class DatabaseService {
         finding.finding,
         finding.description,
         finding.remediation,
+        finding.evidence ? JSON.stringify(finding.evidence) : null,
+        finding.scanId ?? null,
+        findingFingerprint(finding),
       ]
     );
     return result.lastID!;
   }
 
-  async storeFindingsForAccount(accountId: number, findings: Omit<AssetFinding, 'id' | 'accountId' | 'createdAt' | 'updatedAt'>[]): Promise<void> {
+  // Records the findings of a completed scan. Findings are matched to earlier ones by fingerprint:
+  // known findings get their last_seen refreshed (and are reopened if they had been resolved), and
+  // open findings in a covered region/service that this scan did not report are resolved.
+  async storeFindingsForAccount(
+    accountId: number,
+    scanId: number,
+    findings: Omit<AssetFinding, 'id' | 'accountId' | 'scanId' | 'fingerprint' | 'createdAt' | 'updatedAt'>[],
+    coverage: { region: string; service: string }[]
+  ): Promise<{ new: number; reopened: number; resolved: number }> {
     const db = this.ensureInitialized();
-    const stmt = await db.prepare(`
-      INSERT INTO asset_findings (
-        account_id, region, resource_id, resource_type, resource_name,
-        service, severity, finding, description, remediation
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `);
+    const counts = { new: 0, reopened: 0, resolved: 0 };
 
-    for (const finding of findings) {
-      await stmt.run(
-        accountId,
-        finding.region,
-        finding.resourceId,
-        finding.resourceType,
-        finding.resourceName,
-        finding.service,
-        finding.severity,
-        finding.finding,
-        finding.description,
-        finding.remediation
+    await db.run('BEGIN TRANSACTION');
+    try {
+      const seenIds = new Set<number>();
+
+      for (const finding of findings) {
+        const fingerprint = findingFingerprint({ ...finding, accountId });
+        const existing = await db.get(
+          'SELECT id, status FROM asset_findings WHERE account_id = ? AND fingerprint = ?',
+          [accountId, fingerprint]
+        );
+
+        let findingId: number;
+        if (existing) {
+          findingId = existing.id;
+          if (existing.status === 'RESOLVED') {
+            counts.reopened++;
+            await this.recordFindingEvent(findingId, SCANNER_ACTOR, 'status', 'RESOLVED', 'OPEN');
+          }
+          await db.run(
+            `UPDATE asset_findings
+             SET resource_type = ?, resource_name = ?, severity = ?, description = ?, remediation = ?, evidence = ?,
+                 scan_id = ?, last_seen = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP,
+                 status = CASE WHEN status = 'RESOLVED' THEN 'OPEN' ELSE status END,
+                 resolved_at = CASE WHEN status = 'RESOLVED' THEN NULL ELSE resolved_at END
+             WHERE id = ?`,
+            [
+              finding.resourceType,
+              finding.resourceName,
+              finding.severity,
+              finding.description,
+              finding.remediation,
+              finding.evidence ? JSON.stringify(finding.evidence) : null,
+              scanId,
+              findingId,
+            ]
+          );
+        } else {
+          counts.new++;
+          const result = await db.run(
+            `INSERT INTO asset_findings (
+              account_id, region, resource_id, resource_type, resource_name,
+              service, severity, finding, description, remediation, evidence, scan_id, fingerprint,
+              first_seen, last_seen
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)`,
+            [
+              accountId,
+              finding.region,
+              finding.resourceId,
+              finding.resourceType,
+              finding.resourceName,
+              finding.service,
+              finding.severity,
+              finding.finding,
+              finding.description,
+              finding.remediation,
+              finding.evidence ? JSON.stringify(finding.evidence) : null,
+              scanId,
+              fingerprint,
+            ]
+          );
+          findingId = result.lastID!;
+        }
+
+        seenIds.add(findingId);
+        await db.run('INSERT OR IGNORE INTO scan_findings (scan_id, finding_id) VALUES (?, ?)', [scanId, findingId]);
+      }
+
+      const covered = new Set(coverage.map(step => `${step.region}/${step.service}`));
+      const openFindings = await db.all(
+        `SELECT id, region, service, status FROM asset_findings WHERE account_id = ? AND status != 'RESOLVED'`,
+        accountId
       );
+      for (const finding of openFindings) {
+        const isCovered = covered.has(`${finding.region}/${finding.service}`) || covered.has(`*/${finding.service}`);
+        if (seenIds.has(finding.id)) {
+          continue;
+        }
+        if (!isCovered) {
+          // The scan did not look where the finding is, so it carries forward instead of dropping out of the latest scan
+          await db.run('INSERT OR IGNORE INTO scan_findings (scan_id, finding_id) VALUES (?, ?)', [scanId, finding.id]);
+          continue;
+        }
+        counts.resolved++;
+        await db.run(
+          `UPDATE asset_findings
+           SET status = 'RESOLVED', resolved_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+           WHERE id = ?`,
+          finding.id
+        );
+        await this.recordFindingEvent(finding.id, SCANNER_ACTOR, 'status', finding.status, 'RESOLVED');
+      }
+
+      await db.run('COMMIT');
+    } catch (error) {
+      await db.run('ROLLBACK');
+      throw error;
     }
 
-    await stmt.finalize();
+    return counts;
   }
 
   async getFindings(filters: {
@@ -224,11 +1163,34 @@ export class DatabaseService {
     region?: string;
     service?: string;
     severity?: string;
+    scanId?: number;
+    status?: string;
+    assignee?: string;
+    suppressed?: SuppressedFilter;
   } = {}): Promise<AssetFinding[]> {
     const db = this.ensureInitialized();
     const conditions: string[] = [];
     const params: any[] = [];
 
+    // Filtering by status looks across the whole finding lifecycle rather than one scan
+    if (filters.scanId || !filters.status) {
+      const scanFilter = this.scanCondition(filters.scanId);
+      conditions.push(scanFilter.condition);
+      params.push(...scanFilter.params);
+    }
+    if (filters.status) {
+      conditions.push('status = ?');
+      params.push(filters.status);
+    }
+    if (filters.assignee) {
+      conditions.push('assignee = ?');
+      params.push(filters.assignee);
+    }
+    const suppressedCondition = this.suppressedCondition(filters.suppressed);
+    if (suppressedCondition) {
+      conditions.push(suppressedCondition);
+    }
+
     if (filters.accountId) {
       conditions.push('account_id = ?');
       params.push(filters.accountId);
@@ -246,40 +1208,188 @@ export class DatabaseService {
       params.push(filters.severity);
     }
 
-    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const whereClause = `WHERE ${conditions.join(' AND ')}`;
     const findings = await db.all(`
-      SELECT 
-        id,
-        account_id as accountId,
-        region,
-        resource_id as resourceId,
-        resource_type as resourceType,
-        resource_name as resourceName,
-        service,
-        severity,
-        finding,
-        description,
-        remediation,
-        created_at as createdAt,
-        updated_at as updatedAt
+      SELECT ${FINDING_COLUMNS}
       FROM asset_findings 
       ${whereClause} 
       ORDER BY created_at DESC
     `, params);
 
-    return findings.map(finding => ({
+    return findings.map(finding => this.mapFinding(finding));
+  }
+
+  async getFinding(id: number): Promise<AssetFinding | undefined> {
+    const db = this.ensureInitialized();
+    const finding = await db.get(`
+      SELECT ${FINDING_COLUMNS}
+      FROM asset_findings
+      WHERE id = ?
+    `, id);
+    return finding ? this.mapFinding(finding) : undefined;
+  }
+
+  private mapFinding(finding: any): AssetFinding {
+    return {
       ...finding,
+      evidence: finding.evidence ? JSON.parse(finding.evidence) : undefined,
+      assignee: finding.assignee ?? undefined,
+      suppressionRuleId: finding.suppressionRuleId ?? undefined,
+      firstSeen: new Date(finding.firstSeen),
+      lastSeen: new Date(finding.lastSeen),
+      resolvedAt: finding.resolvedAt ? new Date(finding.resolvedAt) : undefined,
+      dueDate: finding.dueDate ? new Date(finding.dueDate) : undefined,
       createdAt: new Date(finding.createdAt),
       updatedAt: new Date(finding.updatedAt)
+    };
+  }
+
+  // Suppressed findings are hidden unless explicitly asked for
+  private suppressedCondition(suppressed: SuppressedFilter = 'exclude'): string | undefined {
+    switch (suppressed) {
+      case 'include':
+        return undefined;
+      case 'only':
+        return `EXISTS (${SUPPRESSION_RULE_MATCH})`;
+      case 'exclude':
+      default:
+        return `NOT EXISTS (${SUPPRESSION_RULE_MATCH})`;
+    }
+  }
+
+  // Finding Triage Operations
+  async updateFindingTriage(
+    id: number,
+    update: { status?: FindingStatus; assignee?: string | null; dueDate?: Date | null },
+    actor: string
+  ): Promise<AssetFinding | undefined> {
+    const db = this.ensureInitialized();
+    const current = await this.getFinding(id);
+    if (!current) {
+      return undefined;
+    }
+
+    await db.run('BEGIN TRANSACTION');
+    try {
+      if (update.status !== undefined && update.status !== current.status) {
+        await db.run(
+          `UPDATE asset_findings
+           SET status = ?,
+               resolved_at = CASE WHEN ? = 'RESOLVED' THEN CURRENT_TIMESTAMP ELSE NULL END,
+               updated_at = CURRENT_TIMESTAMP
+           WHERE id = ?`,
+          [update.status, update.status, id]
+        );
+        await this.recordFindingEvent(id, actor, 'status', current.status, update.status);
+      }
+
+      if (update.assignee !== undefined && update.assignee !== (current.assignee ?? null)) {
+        await db.run(
+          'UPDATE asset_findings SET assignee = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+          [update.assignee, id]
+        );
+        await this.recordFindingEvent(id, actor, 'assignee', current.assignee, update.assignee);
+      }
+
+      const currentDueDate = current.dueDate?.toISOString() ?? null;
+      const dueDate = update.dueDate === undefined ? undefined : update.dueDate?.toISOString() ?? null;
+      if (dueDate !== undefined && dueDate !== currentDueDate) {
+        await db.run(
+          'UPDATE asset_findings SET due_date = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+          [dueDate, id]
+        );
+        await this.recordFindingEvent(id, actor, 'dueDate', currentDueDate, dueDate);
+      }
+
+      await db.run('COMMIT');
+    } catch (error) {
+      await db.run('ROLLBACK');
+      throw error;
+    }
+
+    return this.getFinding(id);
+  }
+
+  async addFindingComment(comment: Omit<FindingComment, 'id' | 'createdAt'>): Promise<number> {
+    const db = this.ensureInitialized();
+    const result = await db.run(
+      'INSERT INTO finding_comments (finding_id, parent_id, author, body) VALUES (?, ?, ?, ?)',
+      [comment.findingId, comment.parentId ?? null, comment.author, comment.body]
+    );
+    return result.lastID!;
+  }
+
+  async getFindingComment(id: number): Promise<FindingComment | undefined> {
+    const db = this.ensureInitialized();
+    const comment = await db.get('SELECT * FROM finding_comments WHERE id = ?', id);
+    return comment ? this.mapFindingComment(comment) : undefined;
+  }
+
+  async getFindingComments(findingId: number): Promise<FindingComment[]> {
+    const db = this.ensureInitialized();
+    const comments = await db.all(
+      'SELECT * FROM finding_comments WHERE finding_id = ? ORDER BY created_at, id',
+      findingId
+    );
+    return comments.map(comment => this.mapFindingComment(comment));
+  }
+
+  async getFindingEvents(findingId: number): Promise<FindingEvent[]> {
+    const db = this.ensureInitialized();
+    const events = await db.all(
+      'SELECT * FROM finding_events WHERE finding_id = ? ORDER BY created_at, id',
+      findingId
+    );
+    return events.map(event => ({
+      id: event.id,
+      findingId: event.finding_id,
+      actor: event.actor,
+      field: event.field,
+      oldValue: event.old_value ?? undefined,
+      newValue: event.new_value ?? undefined,
+      createdAt: new Date(event.created_at)
     }));
   }
 
-  async getFindingStats(accountId?: number): Promise<any> {
+  private async recordFindingEvent(
+    findingId: number,
+    actor: string,
+    field: FindingEvent['field'],
+    oldValue?: string | null,
+    newValue?: string | null
+  ): Promise<void> {
+    const db = this.ensureInitialized();
+    await db.run(
+      'INSERT INTO finding_events (finding_id, actor, field, old_value, new_value) VALUES (?, ?, ?, ?, ?)',
+      [findingId, actor, field, oldValue ?? null, newValue ?? null]
+    );
+  }
+
+  private mapFindingComment(comment: any): FindingComment {
+    return {
+      id: comment.id,
+      findingId: comment.finding_id,
+      parentId: comment.parent_id ?? undefined,
+      author: comment.author,
+      body: comment.body,
+      createdAt: new Date(comment.created_at)
+    };
+  }
+
+  async getFindingStats(accountId?: number, scanId?: number): Promise<any> {
     const db = this.ensureInitialized();
-    const whereClause = accountId ? 'WHERE account_id = ?' : '';
-    const params = accountId ? [accountId] : [];
+    const scanFilter = this.scanCondition(scanId);
+    const conditions = [scanFilter.condition];
+    const params: any[] = [...scanFilter.params];
+
+    if (accountId) {
+      conditions.push('account_id = ?');
+      params.push(accountId);
+    }
+    const scopeClause = conditions.join(' AND ');
+    const whereClause = `WHERE ${scopeClause} AND ${this.suppressedCondition('exclude')}`;
 
-    const [bySeverity, byService] = await Promise.all([
+    const [bySeverity, byService, byRegion, suppressed] = await Promise.all([
       db.all(`
         SELECT severity, COUNT(*) as count
         FROM asset_findings
@@ -291,6 +1401,18 @@ export class DatabaseService {
         FROM asset_findings
         ${whereClause}
         GROUP BY service
+      `, params),
+      // Findings of global modules are counted once, under the 'global' region
+      db.all(`
+        SELECT region, COUNT(*) as count
+        FROM asset_findings
+        ${whereClause}
+        GROUP BY region
+      `, params),
+      db.get(`
+        SELECT COUNT(*) as count
+        FROM asset_findings
+        WHERE ${scopeClause} AND ${this.suppressedCondition('only')}
       `, params)
     ]);
 
@@ -298,8 +1420,10 @@ export class DatabaseService {
 
     return {
       totalFindings,
+      suppressedFindings: suppressed?.count || 0,
       bySeverity: bySeverity,
-      byService: byService
+      byService: byService,
+      byRegion: byRegion
     };
   }
 
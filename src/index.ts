@@ -15,6 +15,11 @@ async function main() {
     await dbService.initialize();
     logger.info('Database initialized successfully');
 
+    const interrupted = await dbService.failInterruptedScanJobs();
+    if (interrupted.scanJobs > 0 || interrupted.scans > 0) {
+      logger.warn(`Marked ${interrupted.scanJobs} interrupted scan job(s) and ${interrupted.scans} scan(s) as failed`);
+    }
+
     // Create and start Express app
     const app = createApp(dbService);
     const port = process.env.PORT || 3000;
@@ -0,0 +1,64 @@
+import { AwsClient, AwsClientClass, CheckOutcome, CredentialProvider, ScanContext, ScanCredentials } from './registry';
+import type { RequestScheduler } from './scheduler';
+import { errorOutcome, isCredentialError } from './outcomes';
+import logger from '../logger';
+
+// Installs extra middleware on every client a scan creates, e.g. to record or replay calls
+export type ClientMiddleware = (client: AwsClient) => void;
+
+export interface ScanContextOptions {
+  region: string;
+  regions?: string[];
+  accountId?: string;
+  knownAccountIds?: string[];
+  credentials: ScanCredentials | CredentialProvider;
+  middleware?: ClientMiddleware[];
+  // Takes over concurrency and retries from the SDK for every client of the scan
+  scheduler?: RequestScheduler;
+  // The module the context is created for, to label its log messages
+  service?: string;
+  // Receives the outcome of every check the module runs
+  onOutcome?: (outcome: CheckOutcome) => void;
+}
+
+export function createScanContext({
+  region,
+  regions = [region],
+  accountId,
+  knownAccountIds = [],
+  credentials,
+  middleware = [],
+  scheduler,
+  service = 'Scanner',
+  onOutcome,
+}: ScanContextOptions): ScanContext {
+  const installers = scheduler ? [scheduler.middleware(), ...middleware] : middleware;
+  return {
+    region,
+    regions,
+    accountId,
+    knownAccountIds: accountId && !knownAccountIds.includes(accountId) ? [...knownAccountIds, accountId] : knownAccountIds,
+    client<T extends AwsClient>(Client: AwsClientClass<T>, clientRegion: string = region): T {
+      const client = new Client({ credentials, region: clientRegion, ...(scheduler ? { maxAttempts: 1 } : {}) });
+      installers.forEach(install => install(client));
+      return client;
+    },
+    async check<T>(name: string, run: () => Promise<T>, checkRegion?: string): Promise<T | undefined> {
+      try {
+        const result = await run();
+        onOutcome?.({ check: name, region: checkRegion, status: 'ok' });
+        return result;
+      } catch (error) {
+        if (isCredentialError(error)) {
+          throw error;
+        }
+        logger.error(`[${service}] Error checking ${name} in ${checkRegion || region}:`, error);
+        onOutcome?.({ check: name, region: checkRegion, ...errorOutcome(error) });
+        return undefined;
+      }
+    },
+    skip(name: string, reason: string, checkRegion?: string): void {
+      onOutcome?.({ check: name, region: checkRegion, status: 'skipped', message: reason });
+    },
+  };
+}
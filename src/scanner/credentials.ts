@@ -0,0 +1,155 @@
+import { fromIni, fromNodeProviderChain, fromTemporaryCredentials } from '@aws-sdk/credential-providers';
+import { GetCallerIdentityCommand, STSClient } from '@aws-sdk/client-sts';
+import { AWSAccount } from '../db/schema';
+import { CredentialProvider, ScanCredentials } from './registry';
+import logger from '../logger';
+
+// Refresh temporary credentials this long before they expire
+const REFRESH_WINDOW_MS = 5 * 60 * 1000;
+
+const ROLE_SESSION_NAME = 'aws-security-lens';
+
+// STS is only used to assume roles and to identify the caller, any region will do
+const STS_REGION = process.env.AWS_REGION || 'us-east-1';
+
+type ResolvedCredentials = ScanCredentials & { expiration?: Date };
+
+// An account as submitted, before it is stored
+export type AccountSettings = Omit<AWSAccount, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface CallerIdentity {
+  accountId: string;
+  arn: string;
+  userId: string;
+}
+
+export class CredentialValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CredentialValidationError';
+  }
+}
+
+// Shares one in-flight or cached identity between all callers, refreshing it shortly before it expires
+function memoize(provider: CredentialProvider): CredentialProvider {
+  let current: Promise<ResolvedCredentials> | undefined;
+
+  return async () => {
+    if (current) {
+      const credentials = await current.catch(() => undefined);
+      if (credentials && (!credentials.expiration || credentials.expiration.getTime() - Date.now() > REFRESH_WINDOW_MS)) {
+        return credentials;
+      }
+    }
+
+    const pending = provider();
+    current = pending;
+    pending.catch(() => {
+      if (current === pending) {
+        current = undefined;
+      }
+    });
+    return pending;
+  };
+}
+
+function cacheKey(account: AccountSettings): string {
+  return JSON.stringify([
+    account.credentialSource,
+    account.accessKeyId,
+    account.secretAccessKey,
+    account.sessionToken,
+    account.roleArn,
+    account.externalId,
+    account.profile,
+  ]);
+}
+
+export class CredentialFactory {
+  private providers = new Map<number, { key: string; provider: CredentialProvider }>();
+
+  // Returns the shared provider for the account, rebuilt whenever its credential settings change
+  forAccount(account: AWSAccount): CredentialProvider {
+    const key = cacheKey(account);
+    const cached = this.providers.get(account.id);
+    if (cached?.key === key) {
+      return cached.provider;
+    }
+
+    const provider = memoize(this.createProvider(account));
+    this.providers.set(account.id, { key, provider });
+    return provider;
+  }
+
+  // Confirms with STS GetCallerIdentity that the credentials work and belong to the account's AWS account ID
+  async validate(account: AccountSettings): Promise<CallerIdentity> {
+    let identity;
+    try {
+      const client = new STSClient({ credentials: this.createProvider(account), region: STS_REGION });
+      try {
+        identity = await client.send(new GetCallerIdentityCommand({}));
+      } finally {
+        client.destroy();
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new CredentialValidationError(`The credentials of account ${account.accountName} could not be validated: ${message}`);
+    }
+
+    if (identity.Account !== account.accountId) {
+      throw new CredentialValidationError(
+        `The credentials belong to AWS account ${identity.Account}, not to account ${account.accountId}`
+      );
+    }
+    logger.info(`Validated the credentials of account ${account.accountName} as ${identity.Arn}`);
+    return { accountId: identity.Account, arn: identity.Arn!, userId: identity.UserId! };
+  }
+
+  private createProvider(account: AccountSettings): CredentialProvider {
+    switch (account.credentialSource) {
+      case 'static':
+        if (!account.accessKeyId || !account.secretAccessKey) {
+          throw new Error(`Missing AWS credentials for account ${account.accountName}`);
+        }
+        return async () => ({
+          accessKeyId: account.accessKeyId!,
+          secretAccessKey: account.secretAccessKey!,
+          sessionToken: account.sessionToken,
+        });
+      case 'profile':
+        if (!account.profile) {
+          throw new Error(`Missing AWS profile for account ${account.accountName}`);
+        }
+        return fromIni({ profile: account.profile });
+      case 'default_chain':
+        return fromNodeProviderChain();
+      case 'assume_role':
+        if (!account.roleArn) {
+          throw new Error(`Missing role ARN for account ${account.accountName}`);
+        }
+        logger.info(`Using role ${account.roleArn} for account ${account.accountName}`);
+        return fromTemporaryCredentials({
+          masterCredentials: this.createBaseProvider(account),
+          params: {
+            RoleArn: account.roleArn,
+            ExternalId: account.externalId,
+            RoleSessionName: ROLE_SESSION_NAME,
+          },
+          clientConfig: { region: STS_REGION },
+        });
+      default:
+        throw new Error(`Unknown credential source ${account.credentialSource} for account ${account.accountName}`);
+    }
+  }
+
+  // The identity a role is assumed from: the account's own keys or profile, else the default chain
+  private createBaseProvider(account: AccountSettings): CredentialProvider {
+    if (account.accessKeyId && account.secretAccessKey) {
+      return this.createProvider({ ...account, credentialSource: 'static' });
+    }
+    if (account.profile) {
+      return this.createProvider({ ...account, credentialSource: 'profile' });
+    }
+    return fromNodeProviderChain();
+  }
+}
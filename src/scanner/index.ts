@@ -5,30 +5,157 @@ import { CloudWatchScanner } from './services/cloudwatch';
 import { KMSScanner } from './services/kms';
 import { GuardDutyScanner } from './services/guardduty';
 import { SecurityHubScanner } from './services/securityhub';
+import { S3Scanner } from './services/s3';
+import { EC2Scanner } from './services/ec2';
+import { RDSScanner } from './services/rds';
+import { ConfigScanner } from './services/config';
+import { IAMPolicyScanner } from './services/iam-policy';
+import { ScanContext, ScanFinding, ScannerModule, ScannerRegistry } from './registry';
+import { ScanContextOptions, createScanContext } from './aws';
+import { CredentialFactory } from './credentials';
+import { SnapshotRecorder, SnapshotReplayer } from './snapshot';
+import { RequestScheduler, RequestSchedulerOptions, mapConcurrent } from './scheduler';
+import { CoverageCollector, errorOutcome, isCredentialError } from './outcomes';
+import { PreflightResult, runPreflight } from './permissions';
+import { GLOBAL_REGION, ScanJobStatus } from '../db/schema';
 import logger from '../logger'; // Assuming logger is imported from another module
 
+export function createDefaultRegistry(): ScannerRegistry {
+  return new ScannerRegistry()
+    .register(new IAMScanner())
+    .register(new IAMPolicyScanner())
+    .register(new CloudTrailScanner())
+    .register(new CloudWatchScanner())
+    .register(new KMSScanner())
+    .register(new GuardDutyScanner())
+    .register(new SecurityHubScanner())
+    .register(new S3Scanner())
+    .register(new EC2Scanner())
+    .register(new RDSScanner())
+    .register(new ConfigScanner());
+}
+
+export interface ScanStep {
+  region: string;
+  service: string;
+}
+
+export interface ScanProgressEvent {
+  region: string;
+  service?: string;
+  status: ScanJobStatus;
+  error?: string;
+}
+
+export interface ScanOptions {
+  // Where the scan was requested from, recorded with the scan
+  trigger?: string;
+  scanJobId?: number;
+  // Saves the raw AWS API responses to this directory so the scan can be re-evaluated offline
+  snapshotDir?: string;
+  signal?: AbortSignal;
+  onPlan?: (accountId: number, steps: ScanStep[]) => void;
+  onProgress?: (accountId: number, event: ScanProgressEvent) => void;
+}
+
+export class ScanCancelledError extends Error {
+  constructor() {
+    super('Scan was cancelled');
+    this.name = 'ScanCancelledError';
+  }
+}
+
+export interface SecurityScannerOptions {
+  // Regions scanned at the same time within an account
+  regionConcurrency?: number;
+  requests?: RequestSchedulerOptions;
+}
+
+type ScanPlan = { region: string; modules: ScannerModule[] }[];
+
+// Creates the context one module runs with in one step of the plan
+type ContextFactory = (region: string, options: Pick<ScanContextOptions, 'service' | 'onOutcome'>) => ScanContext;
+
+const DEFAULT_REGION_CONCURRENCY = 3;
+
+// Placeholder credentials for replayed scans; requests never leave the process
+const SNAPSHOT_CREDENTIALS = { accessKeyId: 'snapshot', secretAccessKey: 'snapshot' };
+
+// Global modules run once per account, in a step of their own ahead of the regions
+function buildPlan(regions: string[], modules: ScannerModule[]): ScanPlan {
+  const global = modules.filter(module => module.scope === 'global');
+  const regional = modules.filter(module => module.scope === 'regional');
+  return [
+    ...(global.length > 0 && regions.length > 0 ? [{ region: GLOBAL_REGION, modules: global }] : []),
+    ...regions.map(region => ({ region, modules: regional })),
+  ];
+}
+
+// Global modules call AWS from the first scanned region unless they pick another one
+function clientRegion(region: string, regions: string[]): string {
+  return region === GLOBAL_REGION ? regions[0] : region;
+}
+
 export class SecurityScanner {
   private dbService: DatabaseService;
-  private iamScanner: IAMScanner;
-  private cloudTrailScanner: CloudTrailScanner;
-  private cloudWatchScanner: CloudWatchScanner;
-  private kmsScanner: KMSScanner;
-  private guardDutyScanner: GuardDutyScanner;
-  private securityHubScanner: SecurityHubScanner;
-
-  constructor(dbService: DatabaseService) {
+  private registry: ScannerRegistry;
+  private credentials: CredentialFactory;
+  private regionConcurrency: number;
+  private requestOptions: RequestSchedulerOptions;
+
+  constructor(
+    dbService: DatabaseService,
+    registry: ScannerRegistry = createDefaultRegistry(),
+    credentials: CredentialFactory = new CredentialFactory(),
+    options: SecurityScannerOptions = {}
+  ) {
     this.dbService = dbService;
-    this.iamScanner = new IAMScanner();
-    this.cloudTrailScanner = new CloudTrailScanner();
-    this.cloudWatchScanner = new CloudWatchScanner();
-    this.kmsScanner = new KMSScanner();
-    this.guardDutyScanner = new GuardDutyScanner();
-    this.securityHubScanner = new SecurityHubScanner();
+    this.registry = registry;
+    this.credentials = credentials;
+    this.regionConcurrency = options.regionConcurrency
+      ?? (Number(process.env.SCAN_REGION_CONCURRENCY) || DEFAULT_REGION_CONCURRENCY);
+    this.requestOptions = options.requests || {};
+  }
+
+  getRegistry(): ScannerRegistry {
+    return this.registry;
+  }
+
+  getCredentials(): CredentialFactory {
+    return this.credentials;
+  }
+
+  async getEnabledModules(accountId: number): Promise<ScannerModule[]> {
+    const settings = await this.dbService.getModuleSettings(accountId);
+    const disabled = new Set(settings.filter(s => !s.enabled).map(s => s.module));
+    return this.registry.list().filter(module => !disabled.has(module.name));
   }
 
-  async scanAccount(accountId: number): Promise<any> {
+  // Checks that the account's credentials allow every action of its enabled modules, before scanning it
+  async preflight(accountId: number, principalArn?: string): Promise<PreflightResult> {
+    const account = await this.dbService.getAccount(accountId);
+    if (!account) {
+      throw new Error(`Account ${accountId} not found`);
+    }
+
+    const modules = await this.getEnabledModules(accountId);
+    const regions = await this.dbService.getEnabledRegions(accountId);
+    const result = await runPreflight(modules, this.credentials.forAccount(account), {
+      // IAM is global, any region reaches it
+      region: regions[0]?.region || 'us-east-1',
+      // An assumed role is simulated with the role's own policies
+      principalArn: principalArn || (account.credentialSource === 'assume_role' ? account.roleArn : undefined),
+    });
+    const denied = result.modules.filter(module => module.status !== 'ok').map(module => module.module);
+    logger.info(`Preflight for account ${account.accountName} as ${result.principalArn}: ` +
+      (denied.length > 0 ? `missing permissions for ${denied.join(', ')}` : 'all permissions granted'));
+    return result;
+  }
+
+  async scanAccount(accountId: number, options: ScanOptions = {}): Promise<any> {
+    const { trigger = 'manual', scanJobId, snapshotDir, onPlan, onProgress } = options;
     logger.info(`Starting scan for account ID: ${accountId}`);
-    
+
     const account = await this.dbService.getAccount(accountId);
     if (!account) {
       logger.error(`Account ${accountId} not found`);
@@ -37,86 +164,242 @@ export class SecurityScanner {
 
     logger.info(`Scanning account ${account.accountName} (${account.accountId})`);
 
+    const credentials = this.credentials.forAccount(account);
+
     const enabledRegions = await this.dbService.getEnabledRegions(accountId);
     logger.info(`Found ${enabledRegions.length} enabled regions:`, { regions: enabledRegions.map(r => r.region) });
 
-    const allFindings: any[] = [];
+    const modules = await this.getEnabledModules(accountId);
+    logger.info(`Running ${modules.length} scanner modules:`, { modules: modules.map(m => m.name) });
 
-    for (const region of enabledRegions) {
-      logger.info(`Starting scan for region ${region.region}`);
+    const plan = buildPlan(enabledRegions.map(r => r.region), modules);
+    const coverage = new CoverageCollector();
+    // Disabled modules are reported as skipped, so their findings aren't mistaken for a clean result
+    const enabled = new Set(modules.map(module => module.name));
+    for (const { region, modules: stepModules } of buildPlan(enabledRegions.map(r => r.region), this.registry.list())) {
+      stepModules
+        .filter(module => !enabled.has(module.name))
+        .forEach(module => coverage.record(region, module.name, { status: 'skipped', message: 'Module is disabled for this account' }));
+    }
+    onPlan?.(accountId, plan.flatMap(({ region, modules }) => modules.map(module => ({ region, service: module.name }))));
+
+    const scanId = await this.dbService.createScan({
+      accountId,
+      scanJobId,
+      regions: enabledRegions.map(r => r.region),
+      services: modules.map(m => m.name),
+      trigger,
+    });
+    logger.info(`Recording scan ${scanId} for account ${accountId}`);
+
+    const knownAccountIds = (await this.dbService.getAccounts()).map(a => a.accountId);
+    const recorder = snapshotDir ? new SnapshotRecorder() : undefined;
+    const scheduler = new RequestScheduler(this.requestOptions);
+    const regions = enabledRegions.map(r => r.region);
+    const contextFor: ContextFactory = (step, contextOptions) => {
+      const region = clientRegion(step, regions);
+      return createScanContext({
+        region,
+        regions,
+        accountId: account.accountId,
+        knownAccountIds,
+        credentials,
+        middleware: recorder ? [recorder.middleware(region)] : [],
+        scheduler,
+        ...contextOptions,
+      });
+    };
+
+    try {
+      const { findings: allFindings, covered } = await this.runPlan(account.accountName, plan, contextFor, coverage, {
+        signal: options.signal,
+        onProgress: onProgress && (event => onProgress(accountId, event)),
+      });
+
+      if (recorder) {
+        await recorder.save(snapshotDir!, {
+          accountId: account.accountId,
+          accountName: account.accountName,
+          knownAccountIds,
+          regions,
+          services: modules.map(m => m.name),
+        });
+        logger.info(`Saved AWS API snapshot for scan ${scanId} to ${snapshotDir}`);
+      }
+
+      logger.info(`Total findings for account: ${allFindings.length}`);
+      const changes = await this.dbService.storeFindingsForAccount(accountId, scanId, allFindings, covered);
+      await this.dbService.storeScanCoverage(scanId, coverage.list());
+      logger.info(`Scan ${scanId}: ${changes.new} new, ${changes.reopened} reopened, ${changes.resolved} resolved findings`);
+      const requestMetrics = scheduler.getMetrics();
+      logger.info(`Scan ${scanId}: ${requestMetrics.requests} AWS requests, ${requestMetrics.retries} retries, ` +
+        `${requestMetrics.throttled} throttled, ${requestMetrics.failed} failed after retries`);
+      await this.dbService.completeScan(scanId, 'COMPLETED', { findingsCount: allFindings.length, requestMetrics });
+      return allFindings;
+    } catch (error) {
+      logger.error('Error during scan:', error);
+      const status = error instanceof ScanCancelledError ? 'CANCELLED' : 'FAILED';
+      const message = error instanceof Error ? error.message : 'Unknown error occurred';
+      // Keep what was checked before the scan stopped
+      await this.dbService.storeScanCoverage(scanId, coverage.list());
+      await this.dbService.completeScan(scanId, status, { error: message, requestMetrics: scheduler.getMetrics() });
+      throw error;
+    }
+  }
+
+  // Evaluates the scanner modules against a saved snapshot instead of live AWS APIs
+  async evaluateSnapshot(dir: string): Promise<(ScanFinding & { region: string })[]> {
+    const replayer = await SnapshotReplayer.load(dir);
+    const { manifest } = replayer;
+    logger.info(`Evaluating snapshot ${dir} captured at ${manifest.capturedAt}`);
+
+    const modules = manifest.services.flatMap(name => {
+      const module = this.registry.get(name);
+      if (!module) {
+        logger.warn(`Snapshot ${dir} includes unknown scanner module ${name}, skipping`);
+      }
+      return module ? [module] : [];
+    });
+
+    const plan = buildPlan(manifest.regions, modules);
+    const scheduler = new RequestScheduler(this.requestOptions);
+    const contextFor: ContextFactory = (step, contextOptions) => {
+      const region = clientRegion(step, manifest.regions);
+      return createScanContext({
+        region,
+        regions: manifest.regions,
+        accountId: manifest.accountId,
+        knownAccountIds: manifest.knownAccountIds,
+        credentials: SNAPSHOT_CREDENTIALS,
+        middleware: [replayer.middleware(region)],
+        scheduler,
+        ...contextOptions,
+      });
+    };
+    const coverage = new CoverageCollector();
+    const { findings } = await this.runPlan(manifest.accountName || dir, plan, contextFor, coverage, {});
+    coverage.list()
+      .filter(outcome => outcome.status !== 'ok')
+      .forEach(outcome => logger.warn(`Snapshot ${dir}: ${outcome.service} ${outcome.check || 'module'} in ${outcome.region} ` +
+        `was ${outcome.status}${outcome.message ? `: ${outcome.message}` : ''}`));
+    return findings;
+  }
+
+  private async runPlan(
+    accountName: string,
+    plan: ScanPlan,
+    contextFor: ContextFactory,
+    coverage: CoverageCollector,
+    options: { signal?: AbortSignal; onProgress?: (event: ScanProgressEvent) => void }
+  ): Promise<{ findings: any[]; covered: ScanStep[] }> {
+    const { signal, onProgress } = options;
+    // Region/service pairs where every check completed, '*' for every region. Findings are only
+    // resolved where a module actually looked, not where it failed or was denied
+    const covered: ScanStep[] = [];
+
+    const runModule = async (region: string, module: ScannerModule): Promise<ScanFinding[]> => {
+      onProgress?.({ region, service: module.name, status: 'RUNNING' });
+      const context = contextFor(region, {
+        service: module.name,
+        onOutcome: outcome => coverage.record(region, module.name, outcome),
+      });
       try {
-        // Try GuardDuty first to validate credentials
-        try {
-          await this.guardDutyScanner.scan(account, region.region);
-        } catch (error: any) {
-          if (error?.name === 'UnrecognizedClientException' || error?.$metadata?.httpStatusCode === 403) {
-            logger.error(`Invalid AWS credentials for account ${account.accountName}. Stopping scan.`);
-            throw new Error(`Invalid AWS credentials for account ${account.accountName}`);
-          }
+        const moduleFindings = await module.scan(context);
+        // Global modules may attribute findings to any region, so they cover all of them
+        const failures = coverage.failures(module.name, module.scope === 'global' ? undefined : region);
+        if (failures.length === 0) {
+          covered.push({ region: module.scope === 'global' ? '*' : region, service: module.name });
+          coverage.record(region, module.name, { status: 'ok' });
+        } else {
+          const worst = failures.some(failure => failure.status === 'error') ? 'error' : 'access_denied';
+          coverage.record(region, module.name, {
+            status: worst,
+            message: `Incomplete: ${failures.map(failure => failure.check).join(', ')} failed`,
+          });
         }
+        onProgress?.({ region, service: module.name, status: 'COMPLETED' });
+        return moduleFindings;
+      } catch (e) {
+        const message = e instanceof Error ? e.message : String(e);
+        onProgress?.({ region, service: module.name, status: 'FAILED', error: message });
+        coverage.record(region, module.name, errorOutcome(e));
+        if (isCredentialError(e)) {
+          logger.error(`Invalid AWS credentials for account ${accountName}. Stopping scan.`);
+          throw new Error(`Invalid AWS credentials for account ${accountName}`);
+        }
+        logger.error(`${module.name} Scanner error in ${region}:`, e);
+        return [];
+      }
+    };
 
-        const findings = await Promise.all([
-          this.iamScanner.scan(account, region.region).catch(e => {
-            logger.error(`IAM Scanner error in ${region.region}:`, e);
-            return [];
-          }),
-          this.cloudTrailScanner.scan(account, region.region).catch(e => {
-            logger.error(`CloudTrail Scanner error in ${region.region}:`, e);
-            return [];
-          }),
-          this.cloudWatchScanner.scan(account, region.region).catch(e => {
-            logger.error(`CloudWatch Scanner error in ${region.region}:`, e);
-            return [];
-          }),
-          this.kmsScanner.scan(account, region.region).catch(e => {
-            logger.error(`KMS Scanner error in ${region.region}:`, e);
-            return [];
-          }),
-          this.guardDutyScanner.scan(account, region.region).catch(e => {
-            logger.error(`GuardDuty Scanner error in ${region.region}:`, e);
-            return [];
-          }),
-          this.securityHubScanner.scan(account, region.region).catch(e => {
-            logger.error(`SecurityHub Scanner error in ${region.region}:`, e);
-            return [];
-          }),
-        ]);
-
-        const regionFindings = findings.flat().map(finding => ({
-          ...finding,
-          region: region.region
-        }));
-        logger.info(`Found ${regionFindings.length} findings in region ${region.region}`);
-        allFindings.push(...regionFindings);
+    const runStep = async ({ region, modules: regionModules }: ScanPlan[number]): Promise<any[]> => {
+      if (signal?.aborted) {
+        throw new ScanCancelledError();
+      }
+
+      logger.info(`Starting scan for region ${region}`);
+      onProgress?.({ region, status: 'RUNNING' });
+
+      let findings;
+      try {
+        findings = await Promise.all(regionModules.map(module => runModule(region, module)));
       } catch (error) {
-        logger.error(`Error scanning region ${region.region}:`, error);
-        throw error; // Propagate the error to stop the scan
+        onProgress?.({ region, status: 'FAILED' });
+        throw error;
       }
-    }
 
-    logger.info(`Total findings for account: ${allFindings.length}`);
+      const regionFindings = findings.flat().map(finding => ({
+        ...finding,
+        region: finding.region || region
+      }));
+      logger.info(`Found ${regionFindings.length} findings in region ${region}`);
+      onProgress?.({ region, status: 'COMPLETED' });
+      return regionFindings;
+    };
+
+    // The global step runs on its own before the regions: its calls are recorded in the snapshot of
+    // the first region, where identical calls must be replayed in the order they were made
+    const globalSteps = plan.filter(step => step.region === GLOBAL_REGION);
+    const regionalSteps = plan.filter(step => step.region !== GLOBAL_REGION);
+    let results: any[][];
     try {
-      await this.dbService.storeFindingsForAccount(accountId, allFindings);
+      results = [
+        ...await mapConcurrent(globalSteps, 1, runStep),
+        ...await mapConcurrent(regionalSteps, this.regionConcurrency, runStep),
+      ];
+      if (signal?.aborted) {
+        throw new ScanCancelledError();
+      }
     } catch (error) {
-      logger.error('Error during scan:', error);
+      // Modules the scan never got to are skipped, with the reason it stopped
+      const reason = error instanceof Error ? error.message : String(error);
+      for (const { region, modules: stepModules } of plan) {
+        stepModules
+          .filter(module => !coverage.has(region, module.name))
+          .forEach(module => coverage.record(region, module.name, { status: 'skipped', message: `Not scanned: ${reason}` }));
+      }
       throw error;
     }
-    return allFindings;
+
+    return { findings: results.flat(), covered };
   }
 
-  async scanAllAccounts() {
+  async scanAllAccounts(options: ScanOptions = {}) {
     const accounts = await this.dbService.getAccounts();
     const allFindings = [];
 
     for (const account of accounts) {
       try {
-        const findings = await this.scanAccount(account.id);
+        const findings = await this.scanAccount(account.id, options);
         allFindings.push({
           accountId: account.id,
           findings,
         });
       } catch (error) {
-        console.error(`Error scanning account ${account.id}:`, error);
+        if (error instanceof ScanCancelledError) {
+          throw error;
+        }
+        logger.error(`Error scanning account ${account.id}:`, error);
         allFindings.push({
           accountId: account.id,
           error: error instanceof Error ? error.message : 'Unknown error occurred',
@@ -127,3 +410,6 @@ export class SecurityScanner {
     return allFindings;
   }
 }
+
+export { ScannerRegistry } from './registry';
+export type { ScannerModule, ScannerScope, ScanContext, ScanCredentials, CredentialProvider, ScanFinding } from './registry';
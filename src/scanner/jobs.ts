@@ -0,0 +1,197 @@
+import { DatabaseService } from '../db/service';
+import { AccountScanProgress, ScanJob, ScanJobError, ScanJobProgress, ScanJobStatus } from '../db/schema';
+import { ScanCancelledError, ScanProgressEvent, ScanStep, SecurityScanner } from './index';
+import logger from '../logger';
+
+const TERMINAL_STATUSES: ScanJobStatus[] = ['COMPLETED', 'FAILED', 'CANCELLED'];
+
+interface RunningJob {
+  controller: AbortController;
+  progress: ScanJobProgress;
+  errors: ScanJobError[];
+  // Status of every region/service step, keyed by account ID then `${region}/${service}`
+  steps: Map<number, Map<string, ScanJobStatus>>;
+  // Serializes progress writes so they land in the order they happened
+  writes: Promise<void>;
+}
+
+function emptyAccountProgress(): AccountScanProgress {
+  return { status: 'PENDING', regions: {}, services: {}, totalSteps: 0, completedSteps: 0 };
+}
+
+function aggregateStatus(statuses: ScanJobStatus[]): ScanJobStatus {
+  if (statuses.includes('RUNNING')) return 'RUNNING';
+  if (statuses.includes('FAILED')) return 'FAILED';
+  if (statuses.length > 0 && statuses.every(status => status === 'COMPLETED')) return 'COMPLETED';
+  return 'PENDING';
+}
+
+export function isTerminalStatus(status: ScanJobStatus): boolean {
+  return TERMINAL_STATUSES.includes(status);
+}
+
+export class ScanJobManager {
+  private dbService: DatabaseService;
+  private scanner: SecurityScanner;
+  private running = new Map<number, RunningJob>();
+
+  constructor(dbService: DatabaseService, scanner: SecurityScanner) {
+    this.dbService = dbService;
+    this.scanner = scanner;
+  }
+
+  async startAccountScan(accountId: number, trigger = 'api'): Promise<ScanJob> {
+    const jobId = await this.dbService.createScanJob(accountId);
+    this.run(jobId, [accountId], trigger);
+    return (await this.dbService.getScanJob(jobId))!;
+  }
+
+  async startAllAccountsScan(trigger = 'api'): Promise<ScanJob> {
+    const accounts = await this.dbService.getAccounts();
+    const jobId = await this.dbService.createScanJob();
+    this.run(jobId, accounts.map(account => account.id), trigger);
+    return (await this.dbService.getScanJob(jobId))!;
+  }
+
+  // Returns false if the job is not running in this process
+  cancel(jobId: number): boolean {
+    const job = this.running.get(jobId);
+    if (!job) {
+      return false;
+    }
+    logger.info(`Cancelling scan job ${jobId}`);
+    job.controller.abort();
+    return true;
+  }
+
+  private run(jobId: number, accountIds: number[], trigger: string): void {
+    const job: RunningJob = {
+      controller: new AbortController(),
+      progress: { totalSteps: 0, completedSteps: 0, accounts: {} },
+      errors: [],
+      steps: new Map(),
+      writes: Promise.resolve(),
+    };
+    for (const accountId of accountIds) {
+      job.progress.accounts[accountId] = emptyAccountProgress();
+      job.steps.set(accountId, new Map());
+    }
+    this.running.set(jobId, job);
+
+    this.execute(jobId, job, accountIds, trigger)
+      .catch(error => logger.error(`Scan job ${jobId} failed unexpectedly:`, error))
+      .finally(() => this.running.delete(jobId));
+  }
+
+  private async execute(jobId: number, job: RunningJob, accountIds: number[], trigger: string): Promise<void> {
+    logger.info(`Starting scan job ${jobId} for ${accountIds.length} account(s)`);
+    await this.dbService.updateScanJob(jobId, { status: 'RUNNING', progress: job.progress });
+
+    let findingsCount = 0;
+    let failedAccounts = 0;
+    let cancelled = false;
+
+    for (const accountId of accountIds) {
+      if (job.controller.signal.aborted) {
+        cancelled = true;
+        break;
+      }
+
+      const accountProgress = job.progress.accounts[accountId];
+      accountProgress.status = 'RUNNING';
+      this.persist(jobId, job);
+
+      try {
+        const findings = await this.scanner.scanAccount(accountId, {
+          trigger,
+          scanJobId: jobId,
+          signal: job.controller.signal,
+          onPlan: (id, steps) => this.handlePlan(jobId, job, id, steps),
+          onProgress: (id, event) => this.handleProgress(jobId, job, id, event),
+        });
+        findingsCount += findings.length;
+        accountProgress.status = 'COMPLETED';
+      } catch (error) {
+        if (error instanceof ScanCancelledError) {
+          accountProgress.status = 'CANCELLED';
+          cancelled = true;
+          break;
+        }
+        logger.error(`Scan job ${jobId} failed for account ${accountId}:`, error);
+        failedAccounts++;
+        accountProgress.status = 'FAILED';
+        job.errors.push({
+          accountId,
+          message: error instanceof Error ? error.message : 'Unknown error occurred',
+        });
+      }
+    }
+
+    let status: ScanJobStatus = 'COMPLETED';
+    if (cancelled) {
+      status = 'CANCELLED';
+    } else if (accountIds.length > 0 && failedAccounts === accountIds.length) {
+      status = 'FAILED';
+    }
+
+    await job.writes;
+    await this.dbService.updateScanJob(jobId, {
+      status,
+      progress: job.progress,
+      errors: job.errors,
+      findingsCount,
+    });
+    logger.info(`Scan job ${jobId} finished with status ${status}. Found ${findingsCount} findings`);
+  }
+
+  private handlePlan(jobId: number, job: RunningJob, accountId: number, steps: ScanStep[]): void {
+    const accountProgress = job.progress.accounts[accountId];
+    const accountSteps = job.steps.get(accountId)!;
+
+    for (const step of steps) {
+      accountSteps.set(`${step.region}/${step.service}`, 'PENDING');
+      accountProgress.regions[step.region] = 'PENDING';
+      accountProgress.services[step.service] = 'PENDING';
+    }
+    accountProgress.totalSteps = steps.length;
+    job.progress.totalSteps += steps.length;
+    this.persist(jobId, job);
+  }
+
+  private handleProgress(jobId: number, job: RunningJob, accountId: number, event: ScanProgressEvent): void {
+    const accountProgress = job.progress.accounts[accountId];
+    const accountSteps = job.steps.get(accountId)!;
+
+    if (event.error) {
+      job.errors.push({ accountId, region: event.region, service: event.service, message: event.error });
+    }
+
+    if (!event.service) {
+      accountProgress.regions[event.region] = event.status;
+      this.persist(jobId, job);
+      return;
+    }
+
+    accountSteps.set(`${event.region}/${event.service}`, event.status);
+    if (isTerminalStatus(event.status)) {
+      accountProgress.completedSteps++;
+      job.progress.completedSteps++;
+    }
+
+    const serviceStatuses = Array.from(accountSteps.entries())
+      .filter(([key]) => key.endsWith(`/${event.service}`))
+      .map(([, status]) => status);
+    accountProgress.services[event.service] = aggregateStatus(serviceStatuses);
+    this.persist(jobId, job);
+  }
+
+  private persist(jobId: number, job: RunningJob): void {
+    const progress = JSON.parse(JSON.stringify(job.progress));
+    const errors = [...job.errors];
+    job.writes = job.writes
+      .then(() => this.dbService.updateScanJob(jobId, { progress, errors }))
+      .catch(error => {
+        logger.error(`Failed to record progress for scan job ${jobId}:`, error);
+      });
+  }
+}
@@ -0,0 +1,89 @@
+import { CoverageStatus, ScanCoverage } from '../db/schema';
+import { CheckOutcome } from './registry';
+
+export type CoverageOutcome = Omit<ScanCoverage, 'id' | 'scanId' | 'createdAt'>;
+
+const ACCESS_DENIED_ERRORS = [
+  'AccessDenied',
+  'AccessDeniedException',
+  'UnauthorizedOperation',
+  'UnauthorizedAccess',
+  'AuthorizationError',
+  'AuthorizationErrorException',
+];
+
+// The credentials themselves were rejected, so no other call of the scan can succeed either.
+// Any other error only fails the module in its region
+const CREDENTIAL_ERRORS = [
+  'InvalidClientTokenId',
+  'UnrecognizedClientException',
+  'SignatureDoesNotMatch',
+  'ExpiredToken',
+];
+
+export function isAccessDenied(error: any): boolean {
+  return ACCESS_DENIED_ERRORS.includes(error?.name) || ACCESS_DENIED_ERRORS.includes(error?.Code);
+}
+
+export function isCredentialError(error: any): boolean {
+  return CREDENTIAL_ERRORS.includes(error?.name);
+}
+
+export function errorOutcome(error: unknown): { status: CoverageStatus; message: string } {
+  const message = error instanceof Error ? error.message : String(error);
+  return { status: isAccessDenied(error) ? 'access_denied' : 'error', message };
+}
+
+// The most telling status wins when a check ran more than once, e.g. once per key or bucket
+const STATUS_RANK: Record<CoverageStatus, number> = { skipped: 0, ok: 1, access_denied: 2, error: 3 };
+
+// Collects the outcomes of a scan, merging repeated runs of a check into one entry per region, module and check
+export class CoverageCollector {
+  private outcomes = new Map<string, CoverageOutcome & { runs: number; failures: number }>();
+
+  record(region: string, service: string, outcome: Omit<CheckOutcome, 'check'> & { check?: string }): void {
+    const key = JSON.stringify([outcome.region || region, service, outcome.check ?? null]);
+    const failed = outcome.status === 'error' || outcome.status === 'access_denied';
+    const existing = this.outcomes.get(key);
+    if (!existing) {
+      this.outcomes.set(key, {
+        region: outcome.region || region,
+        service,
+        check: outcome.check,
+        status: outcome.status,
+        message: outcome.message,
+        runs: 1,
+        failures: failed ? 1 : 0,
+      });
+      return;
+    }
+
+    existing.runs++;
+    if (failed) {
+      existing.failures++;
+    }
+    if (STATUS_RANK[outcome.status] > STATUS_RANK[existing.status]) {
+      existing.status = outcome.status;
+      existing.message = outcome.message;
+    }
+  }
+
+  has(region: string, service: string): boolean {
+    return this.list().some(outcome => outcome.region === region && outcome.service === service && !outcome.check);
+  }
+
+  // Checks of the module that failed, in the region or in any region if none is given
+  failures(service: string, region?: string): CoverageOutcome[] {
+    return this.list().filter(outcome =>
+      outcome.service === service && outcome.check && (!region || outcome.region === region) &&
+      (outcome.status === 'error' || outcome.status === 'access_denied')
+    );
+  }
+
+  list(): CoverageOutcome[] {
+    return Array.from(this.outcomes.values()).map(({ runs, failures, ...outcome }) => ({
+      ...outcome,
+      message: failures > 0 && runs > 1 ? `${failures} of ${runs} runs failed: ${outcome.message}` : outcome.message,
+    }));
+  }
+}
@@ -0,0 +1,90 @@
+import { DEFAULT_RESOURCE_LIMIT, chunk, paginate, resourceLimit, truncationFinding } from './pagination';
+
+// Serves the pages in order, linking each to the next with a token
+function pages<T>(...contents: T[][]) {
+  return jest.fn(async (nextToken: string | undefined) => {
+    const index = nextToken ? Number(nextToken) : 0;
+    return { items: contents[index], nextToken: index + 1 < contents.length ? String(index + 1) : undefined };
+  });
+}
+
+describe('paginate', () => {
+  it('follows the tokens until the list ends', async () => {
+    const fetchPage = pages([1, 2], [3], [4, 5]);
+
+    const result = await paginate('TEST_ITEM', fetchPage, 10);
+
+    expect(result).toEqual({ items: [1, 2, 3, 4, 5], resourceType: 'TEST_ITEM', limit: 10, truncated: false });
+    expect(fetchPage.mock.calls.map(([token]) => token)).toEqual([undefined, '1', '2']);
+  });
+
+  it('stops at the limit and marks the result as truncated', async () => {
+    const fetchPage = pages([1, 2], [3, 4], [5, 6]);
+
+    const result = await paginate('TEST_ITEM', fetchPage, 3);
+
+    expect(result.items).toEqual([1, 2, 3]);
+    expect(result.truncated).toBe(true);
+    // The page after the one that reached the limit is never fetched
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('is truncated when more pages remain after exactly the limit', async () => {
+    const result = await paginate('TEST_ITEM', pages([1, 2], [3]), 2);
+
+    expect(result).toMatchObject({ items: [1, 2], truncated: true });
+  });
+
+  it('is not truncated when the last page ends at the limit', async () => {
+    const result = await paginate('TEST_ITEM', pages([1], [2]), 2);
+
+    expect(result).toMatchObject({ items: [1, 2], truncated: false });
+  });
+
+  it('treats pages without items as empty', async () => {
+    const fetchPage = jest.fn()
+      .mockResolvedValueOnce({ items: undefined, nextToken: 'next' })
+      .mockResolvedValueOnce({ items: [1] });
+
+    const result = await paginate<number>('TEST_ITEM', fetchPage, 10);
+
+    expect(result.items).toEqual([1]);
+  });
+});
+
+describe('resourceLimit', () => {
+  afterEach(() => {
+    delete process.env.SCAN_LIMIT_GUARDDUTY_FINDING;
+  });
+
+  it('uses the environment, then the per-type default, then the global default', () => {
+    expect(resourceLimit('GUARDDUTY_FINDING')).toBe(1000);
+    expect(resourceLimit('KMS_KEY')).toBe(DEFAULT_RESOURCE_LIMIT);
+
+    process.env.SCAN_LIMIT_GUARDDUTY_FINDING = '50';
+    expect(resourceLimit('GUARDDUTY_FINDING')).toBe(50);
+  });
+});
+
+describe('chunk', () => {
+  it('splits items into groups of at most the size', () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(chunk([], 2)).toEqual([]);
+  });
+});
+
+describe('truncationFinding', () => {
+  it('names the resource type and the limit', () => {
+    const finding = truncationFinding('KMS', { items: [], resourceType: 'KMS_KEY', limit: 100, truncated: true });
+
+    expect(finding).toMatchObject({
+      resourceId: 'account',
+      resourceType: 'SCAN_LIMIT',
+      resourceName: 'Account KMS',
+      service: 'KMS',
+      finding: 'Scan Results Truncated: KMS_KEY',
+      evidence: { resourceType: 'KMS_KEY', limit: 100 },
+    });
+    expect(finding.remediation).toContain('SCAN_LIMIT_KMS_KEY');
+  });
+});
@@ -0,0 +1,79 @@
+import { ScanFinding } from './registry';
+
+// Items fetched per resource type unless overridden with SCAN_LIMIT_<RESOURCE_TYPE>, e.g. SCAN_LIMIT_KMS_KEY=10000
+export const DEFAULT_RESOURCE_LIMIT = 5000;
+
+const RESOURCE_LIMITS: Record<string, number> = {
+  GUARDDUTY_FINDING: 1000,
+  SECURITYHUB_FINDING: 1000,
+  // Non-compliant resources per Config rule and region
+  CONFIG_RULE_RESULT: 1000,
+  // Pages of GetAccountAuthorizationDetails, which returns users, groups, roles and policies together
+  IAM_AUTHORIZATION_DETAILS: 500,
+};
+
+export function resourceLimit(resourceType: string): number {
+  return Number(process.env[`SCAN_LIMIT_${resourceType}`]) || RESOURCE_LIMITS[resourceType] || DEFAULT_RESOURCE_LIMIT;
+}
+
+// One page of a list call, with the token for the next page if there is one
+export interface Page<T> {
+  items?: T[];
+  nextToken?: string;
+}
+
+export interface PaginatedResult<T> {
+  items: T[];
+  resourceType: string;
+  limit: number;
+  // More items were available than the limit allowed
+  truncated: boolean;
+}
+
+// Follows continuation tokens until the list ends or the limit for the resource type is reached
+export async function paginate<T>(
+  resourceType: string,
+  fetchPage: (nextToken: string | undefined) => Promise<Page<T>>,
+  limit: number = resourceLimit(resourceType)
+): Promise<PaginatedResult<T>> {
+  const items: T[] = [];
+  let nextToken: string | undefined;
+  do {
+    const page = await fetchPage(nextToken);
+    items.push(...page.items || []);
+    nextToken = page.nextToken;
+  } while (nextToken && items.length < limit);
+
+  return { items: items.slice(0, limit), resourceType, limit, truncated: items.length > limit || !!nextToken };
+}
+
+// Splits items for APIs that accept a bounded number of IDs per call
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// Warns that a scan only saw part of a resource list, so findings may be missing
+export function truncationFinding(
+  service: string,
+  result: PaginatedResult<unknown>,
+  resource: { resourceId?: string; resourceName?: string; region?: string } = {}
+): ScanFinding {
+  const { resourceId = 'account', resourceName = `Account ${service}`, region } = resource;
+  return {
+    resourceId,
+    resourceType: 'SCAN_LIMIT',
+    resourceName,
+    service,
+    ...(region ? { region } : {}),
+    severity: 'LOW',
+    finding: `Scan Results Truncated: ${result.resourceType}`,
+    description: `The scan stopped after ${result.limit} ${result.resourceType} items of ${resourceName}; ` +
+      'the rest were not checked, so findings for them are missing.',
+    remediation: `Raise the limit with the SCAN_LIMIT_${result.resourceType} environment variable.`,
+    evidence: { resourceType: result.resourceType, limit: result.limit },
+  };
+}
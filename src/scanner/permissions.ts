@@ -0,0 +1,116 @@
+import { IAMClient, SimulatePrincipalPolicyCommand } from '@aws-sdk/client-iam';
+import { GetCallerIdentityCommand, STSClient } from '@aws-sdk/client-sts';
+import { CredentialProvider, ScanCredentials, ScannerModule, ScannerScope } from './registry';
+import { PolicyStatement } from './policies';
+
+// Actions the preflight itself calls; STS GetCallerIdentity needs no permission
+export const PREFLIGHT_PERMISSIONS = ['iam:SimulatePrincipalPolicy'];
+
+const ASSUMED_ROLE_ARN = /^arn:(aws[a-z-]*):sts::(\d{12}):assumed-role\/([^/]+)\/[^/]+$/;
+
+export interface ScanningPolicy {
+  Version: '2012-10-17';
+  Statement: PolicyStatement[];
+}
+
+export type PreflightDecision = 'allowed' | 'explicitDeny' | 'implicitDeny';
+
+export interface ModulePreflight {
+  module: string;
+  scope: ScannerScope;
+  // access_denied when any action of the module would be denied, so some of its checks would fail
+  status: 'ok' | 'access_denied';
+  deniedActions: { action: string; decision: PreflightDecision }[];
+}
+
+export interface PreflightResult {
+  principalArn: string;
+  checkedAt: Date;
+  // Whether every enabled module has all the permissions it needs
+  ready: boolean;
+  modules: ModulePreflight[];
+}
+
+// Every IAM action of the modules, sorted and without duplicates
+export function moduleActions(modules: ScannerModule[]): string[] {
+  return Array.from(new Set(modules.flatMap(module => module.permissions))).sort();
+}
+
+// The least privileged policy that lets the modules scan an account, read-only and on any resource
+export function scanningPolicy(modules: ScannerModule[], options: { preflight?: boolean } = {}): ScanningPolicy {
+  const { preflight = true } = options;
+  const statements: PolicyStatement[] = [
+    { Sid: 'SecurityLensScan', Effect: 'Allow', Action: moduleActions(modules), Resource: '*' },
+  ];
+  if (preflight) {
+    statements.push({ Sid: 'SecurityLensPreflight', Effect: 'Allow', Action: PREFLIGHT_PERMISSIONS, Resource: '*' });
+  }
+  return { Version: '2012-10-17', Statement: statements };
+}
+
+// The IAM principal whose policies apply to a caller identity: an assumed role session maps to its role.
+// Session ARNs drop the path of the role, so roles with a path have to be named explicitly
+export function policySourceArn(callerArn: string): string {
+  const match = ASSUMED_ROLE_ARN.exec(callerArn);
+  return match ? `arn:${match[1]}:iam::${match[2]}:role/${match[3]}` : callerArn;
+}
+
+// Simulates the IAM policies of the principal against the actions of the modules, without calling them
+export async function runPreflight(
+  modules: ScannerModule[],
+  credentials: ScanCredentials | CredentialProvider,
+  options: { region: string; principalArn?: string }
+): Promise<PreflightResult> {
+  const client = new IAMClient({ credentials, region: options.region });
+  try {
+    const principalArn = options.principalArn || await callerPrincipal(credentials, options.region);
+
+    const decisions = new Map<string, PreflightDecision>();
+    let marker: string | undefined;
+    do {
+      const page = await client.send(new SimulatePrincipalPolicyCommand({
+        PolicySourceArn: principalArn,
+        ActionNames: moduleActions(modules),
+        Marker: marker,
+      }));
+      for (const result of page.EvaluationResults || []) {
+        decisions.set(result.EvalActionName!, result.EvalDecision as PreflightDecision);
+      }
+      marker = page.IsTruncated ? page.Marker : undefined;
+    } while (marker);
+
+    const results = modules.map(module => {
+      const deniedActions = module.permissions
+        .map(action => ({ action, decision: decisions.get(action) || 'implicitDeny' }))
+        .filter(({ decision }) => decision !== 'allowed');
+      return {
+        module: module.name,
+        scope: module.scope,
+        status: deniedActions.length > 0 ? 'access_denied' as const : 'ok' as const,
+        deniedActions,
+      };
+    });
+
+    return {
+      principalArn,
+      checkedAt: new Date(),
+      ready: results.every(result => result.status === 'ok'),
+      modules: results,
+    };
+  } finally {
+    client.destroy();
+  }
+}
+
+async function callerPrincipal(credentials: ScanCredentials | CredentialProvider, region: string): Promise<string> {
+  const client = new STSClient({ credentials, region });
+  try {
+    const identity = await client.send(new GetCallerIdentityCommand({}));
+    if (!identity.Arn) {
+      throw new Error('Could not determine the IAM principal of the credentials');
+    }
+    return policySourceArn(identity.Arn);
+  } finally {
+    client.destroy();
+  }
+}
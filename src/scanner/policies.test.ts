@@ -0,0 +1,157 @@
+import {
+  PolicyStatement,
+  ResolvedStatement,
+  analyzeTrustPolicy,
+  findAdministratorStatements,
+  findEscalationPaths,
+  findWildcardPassRole,
+  matchesPattern,
+  parsePolicyDocument,
+  principalAccount,
+  resolveStatements,
+} from './policies';
+
+const ACCOUNT_ID = '111122223333';
+
+function statements(...statement: PolicyStatement[]): ResolvedStatement[] {
+  return resolveStatements([{ name: 'test-policy', document: JSON.stringify({ Version: '2012-10-17', Statement: statement }) }]);
+}
+
+function escalationNames(resolved: ResolvedStatement[]): string[] {
+  return findEscalationPaths(resolved).map(({ path }) => path.name);
+}
+
+describe('matchesPattern', () => {
+  it('supports IAM wildcards', () => {
+    expect(matchesPattern('iam:*', 'iam:PassRole')).toBe(true);
+    expect(matchesPattern('iam:Put?serPolicy', 'iam:PutUserPolicy')).toBe(true);
+    expect(matchesPattern('iam:Get*', 'iam:PassRole')).toBe(false);
+    expect(matchesPattern('IAM:passrole', 'iam:PassRole', true)).toBe(true);
+    expect(matchesPattern('IAM:passrole', 'iam:PassRole')).toBe(false);
+  });
+});
+
+describe('parsePolicyDocument', () => {
+  it('parses URL encoded documents and single statements', () => {
+    const document = encodeURIComponent(JSON.stringify({ Statement: { Effect: 'Allow', Action: 's3:GetObject', Resource: '*' } }));
+
+    expect(parsePolicyDocument(document)).toEqual([{ Effect: 'Allow', Action: 's3:GetObject', Resource: '*' }]);
+  });
+});
+
+describe('findAdministratorStatements', () => {
+  it('finds statements that allow every action on every resource', () => {
+    const resolved = statements(
+      { Sid: 'Admin', Effect: 'Allow', Action: '*', Resource: '*' },
+      { Sid: 'ReadAll', Effect: 'Allow', Action: '*', Resource: 'arn:aws:s3:::logs/*' },
+    );
+
+    expect(findAdministratorStatements(resolved).map(statement => statement.statement)).toEqual(['Admin']);
+  });
+});
+
+describe('findEscalationPaths', () => {
+  it('reports a path only when all of its actions are granted', () => {
+    expect(escalationNames(statements({ Effect: 'Allow', Action: 'iam:PassRole', Resource: '*' }))).toEqual([]);
+    expect(escalationNames(statements({ Effect: 'Allow', Action: ['iam:PassRole', 'ec2:RunInstances'], Resource: '*' })))
+      .toEqual(['PassRole to EC2']);
+  });
+
+  it('expands wildcard actions', () => {
+    expect(escalationNames(statements({ Effect: 'Allow', Action: 'iam:Put*Policy', Resource: '*' })))
+      .toEqual(['iam:PutUserPolicy', 'iam:PutGroupPolicy', 'iam:PutRolePolicy']);
+  });
+
+  it('treats NotAction as granting everything it does not list', () => {
+    const names = escalationNames(statements({ Effect: 'Allow', NotAction: 'iam:*', Resource: '*' }));
+
+    expect(names).toContain('lambda:UpdateFunctionCode');
+    expect(names.some(name => name.startsWith('iam:'))).toBe(false);
+  });
+
+  it('ignores actions removed by an unconditional Deny', () => {
+    const resolved = statements(
+      { Effect: 'Allow', Action: 'iam:*', Resource: '*' },
+      { Effect: 'Deny', Action: 'iam:CreateAccessKey', Resource: '*' },
+    );
+
+    expect(escalationNames(resolved)).not.toContain('iam:CreateAccessKey');
+    expect(escalationNames(resolved)).toContain('iam:CreateLoginProfile');
+  });
+
+  it('still reports actions only denied under a condition', () => {
+    const resolved = statements(
+      { Effect: 'Allow', Action: 'iam:CreateAccessKey', Resource: '*' },
+      {
+        Effect: 'Deny',
+        Action: 'iam:CreateAccessKey',
+        Resource: '*',
+        Condition: { Bool: { 'aws:MultiFactorAuthPresent': 'false' } },
+      },
+    );
+
+    expect(escalationNames(resolved)).toEqual(['iam:CreateAccessKey']);
+  });
+});
+
+describe('findWildcardPassRole', () => {
+  it('finds PassRole on any role', () => {
+    const resolved = statements(
+      { Sid: 'Any', Effect: 'Allow', Action: 'iam:PassRole', Resource: 'arn:aws:iam::111122223333:role/*' },
+      { Sid: 'One', Effect: 'Allow', Action: 'iam:PassRole', Resource: 'arn:aws:iam::111122223333:role/lambda-exec' },
+    );
+
+    expect(findWildcardPassRole(resolved).map(statement => statement.statement)).toEqual(['Any']);
+  });
+});
+
+describe('principalAccount', () => {
+  it('reads the account of account IDs and ARNs', () => {
+    expect(principalAccount('444455556666')).toBe('444455556666');
+    expect(principalAccount('arn:aws:iam::444455556666:root')).toBe('444455556666');
+    expect(principalAccount('arn:aws:iam::444455556666:role/deploy')).toBe('444455556666');
+    expect(principalAccount('lambda.amazonaws.com')).toBeUndefined();
+  });
+});
+
+describe('analyzeTrustPolicy', () => {
+  it('reports roles any AWS principal can assume unless a condition restricts them', () => {
+    const issues = analyzeTrustPolicy(statements(
+      { Sid: 'Public', Effect: 'Allow', Principal: { AWS: '*' }, Action: 'sts:AssumeRole' },
+      {
+        Sid: 'OrgOnly',
+        Effect: 'Allow',
+        Principal: '*',
+        Action: 'sts:AssumeRole',
+        Condition: { StringEquals: { 'aws:PrincipalOrgID': 'o-123' } },
+      },
+    ), ACCOUNT_ID);
+
+    expect(issues.public.map(statement => statement.statement)).toEqual(['Public']);
+  });
+
+  it('reports other accounts that do not have to pass an external ID', () => {
+    const issues = analyzeTrustPolicy(statements(
+      {
+        Sid: 'Vendor',
+        Effect: 'Allow',
+        Principal: { AWS: ['arn:aws:iam::444455556666:root', `arn:aws:iam::${ACCOUNT_ID}:root`] },
+        Action: 'sts:AssumeRole',
+      },
+      {
+        Sid: 'Partner',
+        Effect: 'Allow',
+        Principal: { AWS: '777788889999' },
+        Action: 'sts:AssumeRole',
+        Condition: { StringEquals: { 'sts:ExternalId': 'secret' } },
+      },
+      { Sid: 'Service', Effect: 'Allow', Principal: { Service: 'lambda.amazonaws.com' }, Action: 'sts:AssumeRole' },
+      { Sid: 'Self', Effect: 'Allow', Principal: { AWS: `arn:aws:iam::${ACCOUNT_ID}:role/admin` }, Action: 'sts:AssumeRole' },
+    ), ACCOUNT_ID);
+
+    expect(issues.public).toEqual([]);
+    expect(issues.crossAccount.map(({ statement, accounts }) => [statement.statement, accounts])).toEqual([
+      ['Vendor', ['444455556666']],
+    ]);
+  });
+});
@@ -0,0 +1,199 @@
+// Evaluation of IAM policy documents, independent of how the policies were fetched
+
+export interface PolicyStatement {
+  Sid?: string;
+  Effect: 'Allow' | 'Deny';
+  Action?: string | string[];
+  NotAction?: string | string[];
+  Resource?: string | string[];
+  NotResource?: string | string[];
+  Principal?: '*' | Record<string, string | string[]>;
+  Condition?: Record<string, Record<string, unknown>>;
+}
+
+// A named policy document, e.g. a managed policy or an inline policy of a user
+export interface PolicySource {
+  // Human readable name that identifies the policy, e.g. its ARN
+  name: string;
+  document: string;
+}
+
+// A statement together with the policy it came from
+export interface ResolvedStatement {
+  policy: string;
+  // The statement Sid, or its position in the policy
+  statement: string;
+  effect: 'Allow' | 'Deny';
+  actions?: string[];
+  notActions?: string[];
+  resources: string[];
+  principal?: PolicyStatement['Principal'];
+  condition?: PolicyStatement['Condition'];
+}
+
+export interface EscalationPath {
+  name: string;
+  actions: string[];
+}
+
+// Permission sets known to let a principal grant itself more privileges
+export const ESCALATION_PATHS: EscalationPath[] = [
+  { name: 'iam:CreatePolicyVersion', actions: ['iam:CreatePolicyVersion'] },
+  { name: 'iam:SetDefaultPolicyVersion', actions: ['iam:SetDefaultPolicyVersion'] },
+  { name: 'iam:AttachUserPolicy', actions: ['iam:AttachUserPolicy'] },
+  { name: 'iam:AttachGroupPolicy', actions: ['iam:AttachGroupPolicy'] },
+  { name: 'iam:AttachRolePolicy', actions: ['iam:AttachRolePolicy'] },
+  { name: 'iam:PutUserPolicy', actions: ['iam:PutUserPolicy'] },
+  { name: 'iam:PutGroupPolicy', actions: ['iam:PutGroupPolicy'] },
+  { name: 'iam:PutRolePolicy', actions: ['iam:PutRolePolicy'] },
+  { name: 'iam:AddUserToGroup', actions: ['iam:AddUserToGroup'] },
+  { name: 'iam:CreateAccessKey', actions: ['iam:CreateAccessKey'] },
+  { name: 'iam:CreateLoginProfile', actions: ['iam:CreateLoginProfile'] },
+  { name: 'iam:UpdateLoginProfile', actions: ['iam:UpdateLoginProfile'] },
+  { name: 'iam:UpdateAssumeRolePolicy', actions: ['iam:UpdateAssumeRolePolicy', 'sts:AssumeRole'] },
+  { name: 'PassRole to Lambda', actions: ['iam:PassRole', 'lambda:CreateFunction', 'lambda:InvokeFunction'] },
+  { name: 'PassRole to Lambda event source', actions: ['iam:PassRole', 'lambda:CreateFunction', 'lambda:CreateEventSourceMapping'] },
+  { name: 'lambda:UpdateFunctionCode', actions: ['lambda:UpdateFunctionCode'] },
+  { name: 'PassRole to EC2', actions: ['iam:PassRole', 'ec2:RunInstances'] },
+  { name: 'PassRole to CloudFormation', actions: ['iam:PassRole', 'cloudformation:CreateStack'] },
+  { name: 'PassRole to Glue', actions: ['iam:PassRole', 'glue:CreateDevEndpoint'] },
+];
+
+const ACCOUNT_ID = /^\d{12}$/;
+
+function toArray(value?: string | string[]): string[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+// IAM wildcards: * matches any sequence and ? any single character
+export function matchesPattern(pattern: string, value: string, ignoreCase = false): boolean {
+  const source = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${source}$`, ignoreCase ? 'i' : '').test(value);
+}
+
+// Policy documents returned by IAM are URL encoded JSON
+export function parsePolicyDocument(document: string): PolicyStatement[] {
+  const json = document.trim().startsWith('{') ? document : decodeURIComponent(document);
+  const { Statement } = JSON.parse(json) as { Statement?: PolicyStatement | PolicyStatement[] };
+  if (!Statement) return [];
+  return Array.isArray(Statement) ? Statement : [Statement];
+}
+
+export function resolveStatements(policies: PolicySource[]): ResolvedStatement[] {
+  return policies.flatMap(policy =>
+    parsePolicyDocument(policy.document).map((statement, index) => ({
+      policy: policy.name,
+      statement: statement.Sid || `Statement[${index}]`,
+      effect: statement.Effect,
+      actions: statement.Action !== undefined ? toArray(statement.Action) : undefined,
+      notActions: statement.NotAction !== undefined ? toArray(statement.NotAction) : undefined,
+      resources: statement.NotResource !== undefined ? [] : toArray(statement.Resource),
+      principal: statement.Principal,
+      condition: statement.Condition,
+    }))
+  );
+}
+
+export function statementMatchesAction(statement: ResolvedStatement, action: string): boolean {
+  if (statement.actions) {
+    return statement.actions.some(pattern => matchesPattern(pattern, action, true));
+  }
+  return !(statement.notActions || []).some(pattern => matchesPattern(pattern, action, true));
+}
+
+// Allow statements that grant the action, unless an unconditional Deny on every resource removes it
+export function grantingStatements(statements: ResolvedStatement[], action: string): ResolvedStatement[] {
+  const denied = statements.some(statement =>
+    statement.effect === 'Deny' && !statement.condition &&
+    statement.resources.includes('*') && statementMatchesAction(statement, action)
+  );
+  if (denied) {
+    return [];
+  }
+  return statements.filter(statement => statement.effect === 'Allow' && statementMatchesAction(statement, action));
+}
+
+// Statements that allow every action on every resource
+export function findAdministratorStatements(statements: ResolvedStatement[]): ResolvedStatement[] {
+  return statements.filter(statement =>
+    statement.effect === 'Allow' && (statement.actions || []).includes('*') && statement.resources.includes('*')
+  );
+}
+
+// Statements that allow passing any role to a service
+export function findWildcardPassRole(statements: ResolvedStatement[]): ResolvedStatement[] {
+  return grantingStatements(statements, 'iam:PassRole').filter(statement =>
+    statement.resources.some(resource => resource === '*' || /:role\/\*$/.test(resource))
+  );
+}
+
+// Escalation paths whose every action is granted, with the statements that grant them
+export function findEscalationPaths(
+  statements: ResolvedStatement[]
+): { path: EscalationPath; grants: { action: string; statements: ResolvedStatement[] }[] }[] {
+  return ESCALATION_PATHS.flatMap(path => {
+    const grants = path.actions.map(action => ({ action, statements: grantingStatements(statements, action) }));
+    return grants.every(grant => grant.statements.length > 0) ? [{ path, grants }] : [];
+  });
+}
+
+// The account a trust policy principal belongs to, if it names one
+export function principalAccount(principal: string): string | undefined {
+  if (ACCOUNT_ID.test(principal)) return principal;
+  const account = principal.split(':')[4];
+  return account && ACCOUNT_ID.test(account) ? account : undefined;
+}
+
+export interface PrincipalIssues {
+  // Allow statements that any AWS principal can use
+  public: ResolvedStatement[];
+  // Allow statements for principals of other accounts
+  crossAccount: { statement: ResolvedStatement; accounts: string[] }[];
+}
+
+function hasConditionKey(statement: ResolvedStatement, key: string): boolean {
+  return Object.values(statement.condition || {}).some(operator =>
+    Object.keys(operator).some(name => name.toLowerCase() === key.toLowerCase())
+  );
+}
+
+// Principals of a resource policy such as a key policy; cross-account statements
+// that carry the exempting condition key are not reported
+export function analyzePrincipals(
+  statements: ResolvedStatement[],
+  accountId?: string,
+  exemptingConditionKey?: string
+): PrincipalIssues {
+  const issues: PrincipalIssues = { public: [], crossAccount: [] };
+
+  for (const statement of statements) {
+    if (statement.effect !== 'Allow' || !statement.principal) continue;
+    const awsPrincipals = statement.principal === '*' ? ['*'] : toArray(statement.principal.AWS);
+
+    if (awsPrincipals.includes('*')) {
+      if (!statement.condition) {
+        issues.public.push(statement);
+      }
+      continue;
+    }
+
+    const accounts = Array.from(new Set(awsPrincipals
+      .map(principalAccount)
+      .filter((account): account is string => !!account && account !== accountId)));
+    if (accounts.length > 0 && !(exemptingConditionKey && hasConditionKey(statement, exemptingConditionKey))) {
+      issues.crossAccount.push({ statement, accounts });
+    }
+  }
+
+  return issues;
+}
+
+// Role trust policies: other accounts should be required to pass an sts:ExternalId
+export function analyzeTrustPolicy(statements: ResolvedStatement[], accountId?: string): PrincipalIssues {
+  return analyzePrincipals(statements, accountId, 'sts:ExternalId');
+}
+
+export function describeStatements(statements: ResolvedStatement[]): string {
+  return statements.map(statement => `${statement.policy} (${statement.statement})`).join(', ');
+}
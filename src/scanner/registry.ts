@@ -0,0 +1,119 @@
+import { AssetFinding, CoverageStatus } from '../db/schema';
+
+export type ScanFinding = Omit<
+  AssetFinding,
+  | 'id' | 'accountId' | 'region' | 'scanId' | 'fingerprint' | 'status' | 'firstSeen' | 'lastSeen' | 'resolvedAt'
+  | 'assignee' | 'dueDate' | 'suppressionRuleId' | 'createdAt' | 'updatedAt'
+> & {
+  // Defaults to the region being scanned; global modules can attribute a finding to the resource's own region
+  region?: string;
+};
+
+// Outcome of one check of a module; the region defaults to the region being scanned
+export interface CheckOutcome {
+  check: string;
+  region?: string;
+  status: CoverageStatus;
+  message?: string;
+}
+
+export interface ScanCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+// Resolves credentials on demand, so temporary ones can be refreshed
+export type CredentialProvider = () => Promise<ScanCredentials & { expiration?: Date }>;
+
+export type ScannerScope = 'global' | 'regional';
+
+// The parts of an AWS SDK v3 client that scans rely on
+export interface AwsClient {
+  middlewareStack: { add(middleware: any, options: any): void };
+  destroy(): void;
+}
+
+export type AwsClientClass<T extends AwsClient> = new (config: {
+  region: string;
+  credentials: ScanCredentials | CredentialProvider;
+  maxAttempts?: number;
+}) => T;
+
+export interface ScanContext {
+  region: string;
+  // Every region of the scan, for global modules that compare settings across regions
+  regions: string[];
+  // The AWS account ID being scanned, when known
+  accountId?: string;
+  // IDs of all accounts registered in AWS Security Lens, to tell trusted cross-account access from unknown
+  knownAccountIds: string[];
+  // Creates an SDK client for the region (or another one), backed by live credentials or a saved snapshot
+  client<T extends AwsClient>(Client: AwsClientClass<T>, region?: string): T;
+  // Runs one check and records whether it completed, was denied or failed. A failed check is logged and
+  // resolves to undefined so the module can go on with its other checks; credential errors still throw
+  check<T>(name: string, run: () => Promise<T>, region?: string): Promise<T | undefined>;
+  // Records a check that was not run, with the reason
+  skip(name: string, reason: string, region?: string): void;
+}
+
+export interface ScannerModule {
+  // Unique module name, also used as the key for per-account toggles
+  readonly name: string;
+  // Global modules are scanned once per account, regional ones once per enabled region
+  readonly scope: ScannerScope;
+  // Every AWS IAM action the module calls, e.g. 'kms:ListKeys'. They make up the scanning policy
+  // and are checked by the permission preflight, so a missing one shows up as access denied mid-scan
+  readonly permissions: string[];
+  // Findings should use the module name as their service, so that findings missing
+  // from a later scan of the same region can be resolved
+  scan(context: ScanContext): Promise<ScanFinding[]>;
+}
+
+export interface ScannerModuleInfo {
+  name: string;
+  scope: ScannerScope;
+  permissions: string[];
+}
+
+// service:Action, without wildcards so the scanning policy stays least privileged
+const IAM_ACTION = /^[a-z0-9-]+:[A-Za-z0-9]+$/;
+
+export class ScannerRegistry {
+  private modules = new Map<string, ScannerModule>();
+
+  register(module: ScannerModule): this {
+    if (this.modules.has(module.name)) {
+      throw new Error(`Scanner module ${module.name} is already registered`);
+    }
+    if (module.permissions.length === 0) {
+      throw new Error(`Scanner module ${module.name} does not declare the IAM actions it calls`);
+    }
+    const invalid = module.permissions.filter(action => !IAM_ACTION.test(action));
+    if (invalid.length > 0) {
+      throw new Error(`Scanner module ${module.name} declares invalid IAM actions: ${invalid.join(', ')}`);
+    }
+    this.modules.set(module.name, module);
+    return this;
+  }
+
+  unregister(name: string): boolean {
+    return this.modules.delete(name);
+  }
+
+  get(name: string): ScannerModule | undefined {
+    return this.modules.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.modules.has(name);
+  }
+
+  list(): ScannerModule[] {
+    return Array.from(this.modules.values());
+  }
+
+  describe(): ScannerModuleInfo[] {
+    return this.list().map(({ name, scope, permissions }) => ({ name, scope, permissions }));
+  }
+}
@@ -0,0 +1,149 @@
+import { RequestScheduler, isThrottlingError, mapConcurrent } from './scheduler';
+
+function awsError(name: string, httpStatusCode: number): Error {
+  return Object.assign(new Error(name), { name, $metadata: { httpStatusCode } });
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Counts the requests in flight, overall and per service, while they wait a little
+function inFlightTracker() {
+  const active = new Map<string, number>();
+  const peak = { total: 0, byService: new Map<string, number>() };
+  let total = 0;
+
+  const request = (service: string) => async () => {
+    total++;
+    active.set(service, (active.get(service) || 0) + 1);
+    peak.total = Math.max(peak.total, total);
+    peak.byService.set(service, Math.max(peak.byService.get(service) || 0, active.get(service)!));
+    await delay(5);
+    total--;
+    active.set(service, active.get(service)! - 1);
+    return service;
+  };
+  return { request, peak };
+}
+
+describe('RequestScheduler', () => {
+  it('caps the requests in flight for the whole account', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrentRequests: 2, maxConcurrentRequestsPerService: 5 });
+    const { request, peak } = inFlightTracker();
+
+    const services = ['IAM', 'EC2', 'S3', 'IAM', 'EC2', 'S3'];
+    const results = await Promise.all(services.map(service => scheduler.schedule(service, request(service))));
+
+    expect(results).toEqual(services);
+    expect(peak.total).toBe(2);
+  });
+
+  it('caps the requests in flight per service', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrentRequests: 10, maxConcurrentRequestsPerService: 1 });
+    const { request, peak } = inFlightTracker();
+
+    const services = ['IAM', 'IAM', 'IAM', 'EC2', 'EC2', 'EC2'];
+    await Promise.all(services.map(service => scheduler.schedule(service, request(service))));
+
+    expect(peak.byService.get('IAM')).toBe(1);
+    expect(peak.byService.get('EC2')).toBe(1);
+    // Different services still run side by side
+    expect(peak.total).toBe(2);
+  });
+
+  it('retries throttled requests until they succeed', async () => {
+    const scheduler = new RequestScheduler({ maxRetries: 3, baseDelayMs: 1, maxDelayMs: 1 });
+    const request = jest.fn()
+      .mockRejectedValueOnce(awsError('ThrottlingException', 400))
+      .mockRejectedValueOnce(awsError('TooManyRequestsException', 429))
+      .mockResolvedValue('ok');
+
+    await expect(scheduler.schedule('IAM', request)).resolves.toBe('ok');
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(scheduler.getMetrics().byService.IAM).toEqual({ requests: 1, retries: 2, throttled: 2, failed: 0 });
+  });
+
+  it('gives up on a throttled request after the maximum retries', async () => {
+    const scheduler = new RequestScheduler({ maxRetries: 2, baseDelayMs: 1, maxDelayMs: 1 });
+    const request = jest.fn().mockRejectedValue(awsError('Throttling', 400));
+
+    await expect(scheduler.schedule('EC2', request)).rejects.toThrow('Throttling');
+    // The first attempt and two retries
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(scheduler.getMetrics().byService.EC2).toEqual({ requests: 1, retries: 2, throttled: 3, failed: 1 });
+  });
+
+  it('retries transient failures without counting them as throttled', async () => {
+    const scheduler = new RequestScheduler({ maxRetries: 2, baseDelayMs: 1, maxDelayMs: 1 });
+    const request = jest.fn()
+      .mockRejectedValueOnce(awsError('InternalError', 500))
+      .mockResolvedValue('ok');
+
+    await expect(scheduler.schedule('S3', request)).resolves.toBe('ok');
+    expect(scheduler.getMetrics().byService.S3).toEqual({ requests: 1, retries: 1, throttled: 0, failed: 0 });
+  });
+
+  it('does not retry other errors', async () => {
+    const scheduler = new RequestScheduler({ maxRetries: 5, baseDelayMs: 1, maxDelayMs: 1 });
+    const request = jest.fn().mockRejectedValue(awsError('AccessDeniedException', 400));
+
+    await expect(scheduler.schedule('KMS', request)).rejects.toThrow('AccessDeniedException');
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(scheduler.getMetrics().byService.KMS).toEqual({ requests: 1, retries: 0, throttled: 0, failed: 0 });
+  });
+
+  it('adds up the metrics of every service', async () => {
+    const scheduler = new RequestScheduler({ maxRetries: 1, baseDelayMs: 1, maxDelayMs: 1 });
+    await scheduler.schedule('IAM', async () => 'ok');
+    await scheduler.schedule('IAM', async () => 'ok');
+    await expect(scheduler.schedule('EC2', () => Promise.reject(awsError('RequestLimitExceeded', 503)))).rejects.toThrow();
+
+    expect(scheduler.getMetrics()).toEqual({
+      requests: 3,
+      retries: 1,
+      throttled: 2,
+      failed: 1,
+      byService: {
+        IAM: { requests: 2, retries: 0, throttled: 0, failed: 0 },
+        EC2: { requests: 1, retries: 1, throttled: 2, failed: 1 },
+      },
+    });
+  });
+});
+
+describe('isThrottlingError', () => {
+  it('recognizes throttling by error name or HTTP status', () => {
+    expect(isThrottlingError(awsError('ThrottlingException', 400))).toBe(true);
+    expect(isThrottlingError(awsError('SlowDown', 503))).toBe(true);
+    expect(isThrottlingError(awsError('SomethingElse', 429))).toBe(true);
+    expect(isThrottlingError(awsError('AccessDenied', 403))).toBe(false);
+  });
+});
+
+describe('mapConcurrent', () => {
+  it('keeps the results in item order with at most limit calls in flight', async () => {
+    let active = 0;
+    let peak = 0;
+    const results = await mapConcurrent([30, 10, 20, 5], 2, async ms => {
+      active++;
+      peak = Math.max(peak, active);
+      await delay(ms);
+      active--;
+      return ms * 2;
+    });
+
+    expect(results).toEqual([60, 20, 40, 10]);
+    expect(peak).toBe(2);
+  });
+
+  it('starts no new items once a call fails', async () => {
+    const worker = jest.fn(async (item: number) => {
+      if (item === 1) throw new Error('failed');
+      return item;
+    });
+
+    await expect(mapConcurrent([1, 2, 3, 4], 1, worker)).rejects.toThrow('failed');
+    expect(worker).toHaveBeenCalledTimes(1);
+  });
+});
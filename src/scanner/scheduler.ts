@@ -0,0 +1,188 @@
+import { ClientMiddleware } from './aws';
+import { RequestMetrics, ServiceRequestMetrics } from '../db/schema';
+import logger from '../logger';
+
+export interface RequestSchedulerOptions {
+  // Requests in flight at once for the whole account
+  maxConcurrentRequests?: number;
+  // Requests in flight at once per AWS service, e.g. IAM or EC2
+  maxConcurrentRequestsPerService?: number;
+  // Attempts after the first one for throttled or transient failures
+  maxRetries?: number;
+  // Exponential backoff starts at the base delay and never waits longer than the max delay
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+const DEFAULT_MAX_CONCURRENT_REQUESTS = 20;
+const DEFAULT_MAX_CONCURRENT_REQUESTS_PER_SERVICE = 5;
+const DEFAULT_MAX_RETRIES = 5;
+const DEFAULT_BASE_DELAY_MS = 200;
+const DEFAULT_MAX_DELAY_MS = 20000;
+
+const THROTTLING_ERROR = /Throttl|TooManyRequests|RequestLimitExceeded|SlowDown/i;
+
+const TRANSIENT_ERRORS = ['TimeoutError', 'RequestTimeout', 'RequestTimeoutException', 'ECONNRESET', 'EPIPE', 'ETIMEDOUT'];
+
+export function isThrottlingError(error: any): boolean {
+  return error?.$metadata?.httpStatusCode === 429 || THROTTLING_ERROR.test(error?.name || error?.code || '');
+}
+
+// Server side and network failures that are likely to succeed when retried
+function isTransientError(error: any): boolean {
+  return (error?.$metadata?.httpStatusCode ?? 0) >= 500 ||
+    TRANSIENT_ERRORS.includes(error?.name) || TRANSIENT_ERRORS.includes(error?.code);
+}
+
+function emptyMetrics(): ServiceRequestMetrics {
+  return { requests: 0, retries: 0, throttled: 0, failed: 0 };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+class Semaphore {
+  private limit: number;
+  private active = 0;
+  private waiting: (() => void)[] = [];
+
+  constructor(limit: number) {
+    this.limit = limit;
+  }
+
+  async acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++;
+      return;
+    }
+    // The releasing caller hands its slot over, so active stays the same
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+// Runs worker over items with at most limit calls in flight, keeping the results in item order.
+// Once a call fails no new items are started, and the first error is thrown
+export async function mapConcurrent<T, R>(items: T[], limit: number, worker: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  let failed = false;
+  const run = async () => {
+    while (nextIndex < items.length && !failed) {
+      const index = nextIndex++;
+      try {
+        results[index] = await worker(items[index]);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, run));
+  return results;
+}
+
+// Schedules every AWS call of one account scan: caps concurrency for the account and per service,
+// and retries throttled and transient failures with exponential backoff and full jitter
+export class RequestScheduler {
+  private maxRetries: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private maxConcurrentRequestsPerService: number;
+  private account: Semaphore;
+  private services = new Map<string, Semaphore>();
+  private metrics = new Map<string, ServiceRequestMetrics>();
+
+  constructor(options: RequestSchedulerOptions = {}) {
+    this.maxRetries = options.maxRetries ?? (Number(process.env.SCAN_MAX_RETRIES) || DEFAULT_MAX_RETRIES);
+    this.baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+    this.maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+    this.maxConcurrentRequestsPerService = options.maxConcurrentRequestsPerService
+      ?? (Number(process.env.SCAN_MAX_CONCURRENT_REQUESTS_PER_SERVICE) || DEFAULT_MAX_CONCURRENT_REQUESTS_PER_SERVICE);
+    this.account = new Semaphore(options.maxConcurrentRequests
+      ?? (Number(process.env.SCAN_MAX_CONCURRENT_REQUESTS) || DEFAULT_MAX_CONCURRENT_REQUESTS));
+  }
+
+  // Routes every request of a client through the scheduler, outside any recording or replaying middleware
+  middleware(): ClientMiddleware {
+    return client => client.middlewareStack.add(
+      (next: any, context: any) => (args: any) => this.schedule(context.clientName.replace(/Client$/, ''), () => next(args)),
+      { step: 'initialize', name: 'requestScheduler', priority: 'high' }
+    );
+  }
+
+  async schedule<T>(service: string, request: () => Promise<T>): Promise<T> {
+    const metrics = this.serviceMetrics(service);
+    metrics.requests++;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.withSlot(service, request);
+      } catch (error: any) {
+        const throttled = isThrottlingError(error);
+        if (throttled) {
+          metrics.throttled++;
+        }
+        if ((!throttled && !isTransientError(error)) || attempt >= this.maxRetries) {
+          if (throttled) {
+            metrics.failed++;
+            logger.warn(`${service} request still throttled after ${attempt} retries`);
+          }
+          throw error;
+        }
+
+        metrics.retries++;
+        // Full jitter: a random wait up to the exponential backoff, so throttled callers spread out
+        const backoff = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt);
+        await sleep(Math.random() * backoff);
+      }
+    }
+  }
+
+  getMetrics(): RequestMetrics {
+    const byService = Object.fromEntries(Array.from(this.metrics.entries()).map(([service, metrics]) => [service, { ...metrics }]));
+    const totals = Object.values(byService).reduce((sum, metrics) => ({
+      requests: sum.requests + metrics.requests,
+      retries: sum.retries + metrics.retries,
+      throttled: sum.throttled + metrics.throttled,
+      failed: sum.failed + metrics.failed,
+    }), emptyMetrics());
+    return { ...totals, byService };
+  }
+
+  // The service slot is taken first, so requests waiting on a busy service don't hold account slots
+  private async withSlot<T>(service: string, request: () => Promise<T>): Promise<T> {
+    if (!this.services.has(service)) {
+      this.services.set(service, new Semaphore(this.maxConcurrentRequestsPerService));
+    }
+    const serviceSlots = this.services.get(service)!;
+
+    await serviceSlots.acquire();
+    try {
+      await this.account.acquire();
+      try {
+        return await request();
+      } finally {
+        this.account.release();
+      }
+    } finally {
+      serviceSlots.release();
+    }
+  }
+
+  private serviceMetrics(service: string): ServiceRequestMetrics {
+    if (!this.metrics.has(service)) {
+      this.metrics.set(service, emptyMetrics());
+    }
+    return this.metrics.get(service)!;
+  }
+}
@@ -0,0 +1,77 @@
+import { ClientMiddleware, createScanContext } from '../aws';
+import { CheckOutcome } from '../registry';
+import { CloudTrailScanner } from './cloudtrail';
+
+type Handler = (input: any) => unknown;
+
+function awsError(name: string, httpStatusCode: number): Error {
+  return Object.assign(new Error(name), { name, $metadata: { httpStatusCode } });
+}
+
+// Answers every AWS call from the handlers by command name, without touching the network
+function fakeAws(handlers: Record<string, Handler>): ClientMiddleware {
+  return client => client.middlewareStack.add((next: any, context: any) => async (args: any) => {
+    const handler = handlers[context.commandName];
+    if (!handler) {
+      throw new Error(`Unexpected ${context.commandName}`);
+    }
+    return { output: { ...(await handler(args.input) as object), $metadata: {} }, response: {} };
+  }, { step: 'initialize', name: 'fakeAws' });
+}
+
+const TRAIL = {
+  Name: 'main',
+  TrailARN: 'arn:aws:cloudtrail:us-east-1:111122223333:trail/main',
+  HomeRegion: 'us-east-1',
+  IsMultiRegionTrail: true,
+  LogFileValidationEnabled: true,
+};
+
+async function scan(handlers: Record<string, Handler>) {
+  const outcomes: CheckOutcome[] = [];
+  const context = createScanContext({
+    region: 'us-east-1',
+    regions: ['us-east-1', 'eu-west-1'],
+    accountId: '111122223333',
+    credentials: { accessKeyId: 'AKIDEXAMPLE', secretAccessKey: 'secret' },
+    middleware: [fakeAws(handlers)],
+    service: 'CloudTrail',
+    onOutcome: outcome => outcomes.push(outcome),
+  });
+  const findings = await new CloudTrailScanner({ dataEventBuckets: [], lambdaDataEvents: false }).scan(context);
+  return { findings: findings.map(finding => finding.finding), outcomes };
+}
+
+describe('CloudTrailScanner', () => {
+  it('reports regions without a logging trail', async () => {
+    const { findings } = await scan({
+      DescribeTrailsCommand: () => ({ trailList: [TRAIL] }),
+      GetTrailStatusCommand: () => ({ IsLogging: false }),
+      GetEventSelectorsCommand: () => ({ EventSelectors: [{ ReadWriteType: 'All', IncludeManagementEvents: true }] }),
+    });
+
+    expect(findings.filter(finding => finding === 'No CloudTrail Configured')).toHaveLength(2);
+    expect(findings).toContain('No Multi-Region Trail');
+  });
+
+  it('skips the logging checks when the status of a trail cannot be read', async () => {
+    const getTrailStatus = jest.fn(() => {
+      throw awsError('AccessDeniedException', 400);
+    });
+    const { findings, outcomes } = await scan({
+      DescribeTrailsCommand: () => ({ trailList: [TRAIL] }),
+      GetTrailStatusCommand: getTrailStatus,
+    });
+
+    expect(findings).not.toContain('No CloudTrail Configured');
+    expect(findings).not.toContain('No Multi-Region Trail');
+    // The multi-region trail shows up in both regions but is only looked up once
+    expect(getTrailStatus).toHaveBeenCalledTimes(1);
+    expect(outcomes).toEqual(expect.arrayContaining([
+      expect.objectContaining({ check: 'trail status', status: 'access_denied' }),
+      expect.objectContaining({ check: 'region trail logging', region: 'us-east-1', status: 'skipped' }),
+      expect.objectContaining({ check: 'region trail logging', region: 'eu-west-1', status: 'skipped' }),
+      expect.objectContaining({ check: 'account trail settings', status: 'skipped' }),
+    ]));
+  });
+});
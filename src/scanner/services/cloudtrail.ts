@@ -1,84 +1,395 @@
-import { CloudTrailClient, DescribeTrailsCommand, GetTrailStatusCommand } from '@aws-sdk/client-cloudtrail';
-import { AssetFinding } from '../../db/schema';
+import {
+  CloudTrailClient,
+  DescribeTrailsCommand,
+  GetTrailStatusCommand,
+  GetEventSelectorsCommand,
+  GetEventSelectorsCommandOutput,
+  GetTrailStatusCommandOutput,
+  Trail,
+} from '@aws-sdk/client-cloudtrail';
+import {
+  S3Client,
+  GetBucketLocationCommand,
+  GetPublicAccessBlockCommand,
+  GetBucketPolicyCommand,
+  GetBucketAclCommand,
+  GetBucketLoggingCommand,
+} from '@aws-sdk/client-s3';
+import { ScanContext, ScanFinding, ScannerModule, ScannerScope } from '../registry';
+import { PUBLIC_GRANTEES, blocksAll, bucketRegion, isPublicPrincipal, policyStatements } from './s3';
 
-type Finding = Omit<AssetFinding, 'id' | 'accountId' | 'region' | 'createdAt' | 'updatedAt'>;
+// CloudWatch Logs deliveries older than this mean the integration has stopped
+const MAX_DELIVERY_AGE_MS = 24 * 60 * 60 * 1000;
 
-export class CloudTrailScanner {
-  async scan(account: { accessKeyId: string; secretAccessKey: string; sessionToken?: string }, region: string): Promise<Finding[]> {
-    const client = new CloudTrailClient({
-      credentials: {
-        accessKeyId: account.accessKeyId,
-        secretAccessKey: account.secretAccessKey,
-        sessionToken: account.sessionToken,
-      },
-      region,
-    });
+export interface CloudTrailScannerOptions {
+  // Buckets whose S3 object-level data events must be logged, '*' for all buckets.
+  // Defaults to the comma separated CLOUDTRAIL_DATA_EVENT_BUCKETS
+  dataEventBuckets?: string[];
+  // Whether Lambda invocations must be logged as data events, defaults to CLOUDTRAIL_LAMBDA_DATA_EVENTS=true
+  lambdaDataEvents?: boolean;
+}
 
-    const findings: Finding[] = [];
+interface EvaluatedTrail {
+  trail: Trail;
+  status: GetTrailStatusCommandOutput;
+  selectors?: GetEventSelectorsCommandOutput;
+}
 
-    try {
-      const trails = await client.send(new DescribeTrailsCommand({}));
+// What the event selectors of a trail capture
+interface EventCoverage {
+  readManagementEvents: boolean;
+  writeManagementEvents: boolean;
+  // Object ARN prefixes with S3 data events, 'arn:aws:s3' covers every bucket
+  s3Prefixes: string[];
+  lambda: boolean;
+}
+
+function eventCoverage(selectors?: GetEventSelectorsCommandOutput): EventCoverage {
+  const coverage: EventCoverage = { readManagementEvents: false, writeManagementEvents: false, s3Prefixes: [], lambda: false };
+
+  for (const selector of selectors?.EventSelectors || []) {
+    const readWrite = selector.ReadWriteType || 'All';
+    if (selector.IncludeManagementEvents !== false) {
+      coverage.readManagementEvents ||= readWrite !== 'WriteOnly';
+      coverage.writeManagementEvents ||= readWrite !== 'ReadOnly';
+    }
+    for (const resource of selector.DataResources || []) {
+      if (resource.Type === 'AWS::S3::Object') coverage.s3Prefixes.push(...resource.Values || []);
+      if (resource.Type === 'AWS::Lambda::Function') coverage.lambda = true;
+    }
+  }
+
+  for (const selector of selectors?.AdvancedEventSelectors || []) {
+    const field = (name: string) => selector.FieldSelectors?.find(fieldSelector => fieldSelector.Field === name);
+    const category = field('eventCategory')?.Equals?.[0];
+    const readOnly = field('readOnly')?.Equals?.[0];
+    if (category === 'Management') {
+      coverage.readManagementEvents ||= readOnly !== 'false';
+      coverage.writeManagementEvents ||= readOnly !== 'true';
+    }
+    if (category === 'Data') {
+      const type = field('resources.type')?.Equals?.[0];
+      const arns = field('resources.ARN')?.StartsWith || ['arn:aws:s3'];
+      if (type === 'AWS::S3::Object') coverage.s3Prefixes.push(...arns);
+      if (type === 'AWS::Lambda::Function') coverage.lambda = true;
+    }
+  }
+
+  return coverage;
+}
+
+function logsBucketData(prefixes: string[], bucket: string): boolean {
+  const objects = `arn:aws:s3:::${bucket}/`;
+  return prefixes.some(prefix => prefix === 'arn:aws:s3' || prefix === 'arn:aws:s3:::' ||
+    objects.startsWith(prefix) || prefix.startsWith(objects));
+}
+
+export class CloudTrailScanner implements ScannerModule {
+  readonly name = 'CloudTrail';
+  // Multi-region trails show up in every region, so trails are evaluated once for the whole account
+  readonly scope: ScannerScope = 'global';
+  readonly permissions = [
+    'cloudtrail:DescribeTrails',
+    'cloudtrail:GetTrailStatus',
+    'cloudtrail:GetEventSelectors',
+    's3:GetBucketLocation',
+    's3:GetBucketPublicAccessBlock',
+    's3:GetBucketPolicy',
+    's3:GetBucketAcl',
+    's3:GetBucketLogging',
+  ];
+  private dataEventBuckets: string[];
+  private lambdaDataEvents: boolean;
+
+  constructor(options: CloudTrailScannerOptions = {}) {
+    this.dataEventBuckets = options.dataEventBuckets ??
+      (process.env.CLOUDTRAIL_DATA_EVENT_BUCKETS || '').split(',').map(bucket => bucket.trim()).filter(Boolean);
+    this.lambdaDataEvents = options.lambdaDataEvents ?? process.env.CLOUDTRAIL_LAMBDA_DATA_EVENTS === 'true';
+  }
+
+  async scan(context: ScanContext): Promise<ScanFinding[]> {
+    const findings: ScanFinding[] = [];
+    const trails = new Map<string, EvaluatedTrail>();
+    // Trails whose status could not be read, so whether they log is unknown
+    const unreadable = new Set<string>();
+    let allRegionsListed = true;
 
-      if (!trails.trailList?.length) {
+    // Regions are scanned one after another so that recorded snapshots replay in the same order
+    for (const region of context.regions) {
+      const response = await context.check('trails', () =>
+        context.client(CloudTrailClient, region).send(new DescribeTrailsCommand({})), region
+      );
+      if (!response) {
+        allRegionsListed = false;
+        continue;
+      }
+
+      let logging = false;
+      let loggingUnknown = false;
+      for (const trail of response.trailList || []) {
+        const arn = trail.TrailARN || trail.Name;
+        if (!arn) continue;
+        if (!trails.has(arn) && !unreadable.has(arn)) {
+          const evaluated = await context.check('trail status', () => this.describeTrail(context, trail), trail.HomeRegion);
+          if (evaluated) {
+            trails.set(arn, evaluated);
+          } else {
+            unreadable.add(arn);
+          }
+        }
+        if (unreadable.has(arn)) {
+          loggingUnknown = true;
+          continue;
+        }
+        logging ||= !!trails.get(arn)!.status.IsLogging;
+      }
+
+      if (!logging && loggingUnknown) {
+        context.skip('region trail logging', `The status of a trail in ${region} could not be read`, region);
+      } else if (!logging) {
         findings.push({
           resourceId: 'account',
           resourceType: 'CLOUDTRAIL_ACCOUNT',
           resourceName: 'Account CloudTrail',
           service: 'CloudTrail',
+          region,
           severity: 'HIGH',
           finding: 'No CloudTrail Configured',
-          description: 'No CloudTrail trails are configured in this region.',
-          remediation: 'Configure CloudTrail to track API activity in your AWS account.',
+          description: `No logging CloudTrail trail records API activity in ${region}.`,
+          remediation: 'Configure a multi-region CloudTrail trail to track API activity in your AWS account.',
         });
-        return findings;
       }
+    }
 
-      for (const trail of trails.trailList) {
-        if (!trail.Name) continue;
-
-        const status = await client.send(new GetTrailStatusCommand({ Name: trail.Name }));
-
-        if (!status.IsLogging) {
-          findings.push({
-            resourceId: trail.TrailARN || trail.Name,
-            resourceType: 'CLOUDTRAIL_TRAIL',
-            resourceName: trail.Name,
-            service: 'CloudTrail',
-            severity: 'HIGH',
-            finding: 'CloudTrail Logging Disabled',
-            description: `CloudTrail ${trail.Name} is not actively logging.`,
-            remediation: 'Enable logging for the CloudTrail trail to maintain audit records.',
-          });
-        }
+    for (const evaluated of trails.values()) {
+      findings.push(...this.checkTrail(evaluated));
+      findings.push(...await context.check('trail buckets', () => this.checkBucket(context, evaluated.trail)) || []);
+    }
 
-        if (!trail.IsMultiRegionTrail) {
-          findings.push({
-            resourceId: trail.TrailARN || trail.Name,
-            resourceType: 'CLOUDTRAIL_TRAIL',
-            resourceName: trail.Name,
-            service: 'CloudTrail',
-            severity: 'MEDIUM',
-            finding: 'Single-Region Trail',
-            description: `CloudTrail ${trail.Name} is only logging events for a single region.`,
-            remediation: 'Consider enabling multi-region logging to capture events across all regions.',
-          });
-        }
+    // Account settings are only known when every trail of every region could be read
+    if (unreadable.size > 0) {
+      allRegionsListed = false;
+    }
+    if (allRegionsListed) {
+      findings.push(...this.checkAccount(context, Array.from(trails.values())));
+    } else {
+      context.skip('account trail settings', 'Trails could not be listed or read in every region');
+    }
 
-        if (!trail.LogFileValidationEnabled) {
-          findings.push({
-            resourceId: trail.TrailARN || trail.Name,
-            resourceType: 'CLOUDTRAIL_TRAIL',
-            resourceName: trail.Name,
-            service: 'CloudTrail',
-            severity: 'MEDIUM',
-            finding: 'Log File Validation Disabled',
-            description: `CloudTrail ${trail.Name} does not have log file validation enabled.`,
-            remediation: 'Enable log file validation to ensure log file integrity.',
-          });
-        }
+    return findings;
+  }
+
+  private async describeTrail(context: ScanContext, trail: Trail): Promise<EvaluatedTrail> {
+    const client = context.client(CloudTrailClient, trail.HomeRegion || context.region);
+    const name = trail.TrailARN || trail.Name;
+    const status = await client.send(new GetTrailStatusCommand({ Name: name }));
+    const selectors = await context.check('trail event selectors', () =>
+      client.send(new GetEventSelectorsCommand({ TrailName: name })), trail.HomeRegion
+    );
+    return { trail, status, selectors };
+  }
+
+  private checkTrail({ trail, status }: EvaluatedTrail): ScanFinding[] {
+    const base = {
+      resourceId: trail.TrailARN || trail.Name!,
+      resourceType: 'CLOUDTRAIL_TRAIL',
+      resourceName: trail.Name!,
+      service: 'CloudTrail',
+      region: trail.HomeRegion,
+    };
+    const findings: ScanFinding[] = [];
+
+    if (!status.IsLogging) {
+      findings.push({
+        ...base,
+        severity: 'HIGH',
+        finding: 'CloudTrail Logging Disabled',
+        description: `CloudTrail ${trail.Name} is not actively logging.`,
+        remediation: 'Enable logging for the CloudTrail trail to maintain audit records.',
+      });
+    }
+
+    if (!trail.LogFileValidationEnabled) {
+      findings.push({
+        ...base,
+        severity: 'MEDIUM',
+        finding: 'Log File Validation Disabled',
+        description: `CloudTrail ${trail.Name} does not have log file validation enabled.`,
+        remediation: 'Enable log file validation to ensure log file integrity.',
+      });
+    }
+
+    if (!trail.KmsKeyId) {
+      findings.push({
+        ...base,
+        severity: 'MEDIUM',
+        finding: 'Trail Not Encrypted With KMS',
+        description: `CloudTrail ${trail.Name} log files are not encrypted with a KMS key.`,
+        remediation: 'Configure SSE-KMS encryption with a customer managed key for the trail.',
+      });
+    }
+
+    if (!trail.CloudWatchLogsLogGroupArn) {
+      findings.push({
+        ...base,
+        severity: 'MEDIUM',
+        finding: 'Trail Not Integrated With CloudWatch Logs',
+        description: `CloudTrail ${trail.Name} does not send events to CloudWatch Logs.`,
+        remediation: 'Configure a CloudWatch Logs log group for the trail so that events can be monitored and alarmed on.',
+      });
+    } else {
+      const lastDelivery = status.LatestCloudWatchLogsDeliveryTime;
+      if (status.LatestCloudWatchLogsDeliveryError || !lastDelivery || Date.now() - lastDelivery.getTime() > MAX_DELIVERY_AGE_MS) {
+        findings.push({
+          ...base,
+          severity: 'MEDIUM',
+          finding: 'CloudWatch Logs Delivery Stale',
+          description: `CloudTrail ${trail.Name} has not delivered events to CloudWatch Logs in the last 24 hours.`,
+          remediation: 'Check that the CloudWatch Logs role of the trail exists and may write to the log group.',
+          evidence: {
+            logGroupArn: trail.CloudWatchLogsLogGroupArn,
+            latestDelivery: lastDelivery?.toISOString(),
+            latestError: status.LatestCloudWatchLogsDeliveryError,
+          },
+        });
+      }
+    }
+
+    return findings;
+  }
+
+  private async checkBucket(context: ScanContext, trail: Trail): Promise<ScanFinding[]> {
+    const name = trail.S3BucketName;
+    if (!name) return [];
+
+    const location = await context.client(S3Client).send(new GetBucketLocationCommand({ Bucket: name }));
+    const region = bucketRegion(location.LocationConstraint);
+    const client = context.client(S3Client, region);
+    const base = { resourceId: `arn:aws:s3:::${name}`, resourceType: 'S3_BUCKET', resourceName: name, service: 'CloudTrail', region };
+    const findings: ScanFinding[] = [];
+
+    let block;
+    try {
+      block = (await client.send(new GetPublicAccessBlockCommand({ Bucket: name }))).PublicAccessBlockConfiguration;
+    } catch (error: any) {
+      if (error.name !== 'NoSuchPublicAccessBlockConfiguration') throw error;
+    }
+
+    if (!blocksAll(block)) {
+      let policy;
+      try {
+        policy = (await client.send(new GetBucketPolicyCommand({ Bucket: name }))).Policy;
+      } catch (error: any) {
+        if (error.name !== 'NoSuchBucketPolicy') throw error;
+      }
+      const publicStatements = (policy ? policyStatements(policy) : []).filter(statement =>
+        statement.Effect === 'Allow' && isPublicPrincipal(statement.Principal) && !statement.Condition
+      );
+      const acl = await client.send(new GetBucketAclCommand({ Bucket: name }));
+      const publicGrantees = (acl.Grants || []).map(grant => PUBLIC_GRANTEES[grant.Grantee?.URI || '']).filter(Boolean);
+
+      if ((publicStatements.length > 0 && !block?.RestrictPublicBuckets) || (publicGrantees.length > 0 && !block?.IgnorePublicAcls)) {
+        findings.push({
+          ...base,
+          severity: 'HIGH',
+          finding: 'Trail Bucket Publicly Accessible',
+          description: `Bucket ${name}, which stores the logs of CloudTrail ${trail.Name}, is publicly accessible.`,
+          remediation: 'Remove the public bucket policy statements and ACL grants, and enable Block Public Access on the bucket.',
+          evidence: { trail: trail.Name, publicStatements: publicStatements.length, publicGrantees },
+        });
       }
-    } catch (error) {
-      console.error('Error scanning CloudTrail:', error);
+    }
+
+    const logging = await client.send(new GetBucketLoggingCommand({ Bucket: name }));
+    if (!logging.LoggingEnabled) {
+      findings.push({
+        ...base,
+        severity: 'MEDIUM',
+        finding: 'Trail Bucket Access Logging Disabled',
+        description: `Bucket ${name}, which stores the logs of CloudTrail ${trail.Name}, does not have server access logging enabled.`,
+        remediation: 'Enable server access logging on the CloudTrail bucket to a separate log bucket.',
+      });
+    }
+
+    return findings;
+  }
+
+  private checkAccount(context: ScanContext, trails: EvaluatedTrail[]): ScanFinding[] {
+    const base = {
+      resourceId: 'account',
+      resourceType: 'CLOUDTRAIL_ACCOUNT',
+      resourceName: 'Account CloudTrail',
+      service: 'CloudTrail',
+    };
+    const findings: ScanFinding[] = [];
+    const active = trails.filter(({ status }) => status.IsLogging);
+    const multiRegion = active.filter(({ trail }) => trail.IsMultiRegionTrail);
+
+    if (multiRegion.length === 0) {
+      findings.push({
+        ...base,
+        severity: 'MEDIUM',
+        finding: 'No Multi-Region Trail',
+        description: 'No logging trail records events in all regions of the account.',
+        remediation: 'Enable multi-region logging on a trail to capture events across all regions, including ones that are not scanned.',
+      });
+    } else {
+      // A trail whose selectors could not be read may capture everything, so it can't fail the account
+      const coverages = multiRegion.filter(({ selectors }) => selectors).map(({ selectors }) => eventCoverage(selectors));
+      const captured = coverages.some(coverage => coverage.readManagementEvents && coverage.writeManagementEvents);
+      if (!captured && coverages.length < multiRegion.length) {
+        context.skip('management event capture', 'The event selectors of a multi-region trail could not be read');
+      } else if (!captured) {
+        findings.push({
+          ...base,
+          severity: 'MEDIUM',
+          finding: 'Management Events Not Fully Captured',
+          description: 'No multi-region trail captures both read and write management events.',
+          remediation: 'Configure a multi-region trail to log all management events, with the read/write type set to All.',
+          evidence: { trails: multiRegion.map(({ trail }) => trail.Name) },
+        });
+      }
+    }
+
+    const unreadable = active.filter(({ selectors }) => !selectors).map(({ trail }) => trail.Name);
+    const coverages = active.filter(({ selectors }) => selectors).map(({ selectors }) => eventCoverage(selectors));
+    const s3Prefixes = coverages.flatMap(coverage => coverage.s3Prefixes);
+    let dataEventsUnknown = false;
+    for (const bucket of this.dataEventBuckets) {
+      const covered = bucket === '*'
+        ? s3Prefixes.some(prefix => prefix === 'arn:aws:s3' || prefix === 'arn:aws:s3:::')
+        : logsBucketData(s3Prefixes, bucket);
+      if (!covered && unreadable.length > 0) {
+        dataEventsUnknown = true;
+      } else if (!covered) {
+        findings.push({
+          ...base,
+          ...(bucket === '*' ? {} : { resourceId: `arn:aws:s3:::${bucket}`, resourceType: 'S3_BUCKET', resourceName: bucket }),
+          severity: 'MEDIUM',
+          finding: 'S3 Data Events Not Logged',
+          description: bucket === '*'
+            ? 'No logging trail records S3 object-level data events for all buckets.'
+            : `No logging trail records S3 object-level data events for bucket ${bucket}.`,
+          remediation: 'Add a data event selector for the S3 objects to a logging trail.',
+        });
+      }
+    }
+
+    const lambdaLogged = coverages.some(coverage => coverage.lambda);
+    if (this.lambdaDataEvents && !lambdaLogged && unreadable.length > 0) {
+      dataEventsUnknown = true;
+    } else if (this.lambdaDataEvents && !lambdaLogged) {
+      findings.push({
+        ...base,
+        severity: 'MEDIUM',
+        finding: 'Lambda Data Events Not Logged',
+        description: 'No logging trail records Lambda invocation data events.',
+        remediation: 'Add a data event selector for Lambda functions to a logging trail.',
+      });
+    }
+
+    if (dataEventsUnknown) {
+      context.skip('data event logging', `The event selectors of trails ${unreadable.join(', ')} could not be read`);
     }
 
     return findings;
@@ -0,0 +1,58 @@
+import { MetricAlarm } from '@aws-sdk/client-cloudwatch';
+import { MONITORING_CONTROLS, MonitoringControl, matchesControl, notifyingAlarms } from './cloudwatch';
+
+function control(id: string): MonitoringControl {
+  return MONITORING_CONTROLS.find(candidate => candidate.id === id)!;
+}
+
+describe('matchesControl', () => {
+  it('matches the CIS patterns regardless of whitespace and quotes', () => {
+    expect(matchesControl(control('4.1'),
+      '{ ($.errorCode = "*UnauthorizedOperation") || ($.errorCode = "AccessDenied*") }')).toBe(true);
+    expect(matchesControl(control('4.2'),
+      "{ ($.eventName = 'ConsoleLogin') && ($.additionalEventData.MFAUsed != 'Yes') }")).toBe(true);
+    expect(matchesControl(control('4.3'),
+      '{ $.userIdentity.type = "Root" && $.userIdentity.invokedBy NOT EXISTS && $.eventType != "AwsServiceEvent" }')).toBe(true);
+    expect(matchesControl(control('4.6'),
+      '{ ($.eventName = ConsoleLogin) && ($.errorMessage = "Failed authentication") }')).toBe(true);
+  });
+
+  it('requires every event of the control', () => {
+    const trailChanges = '{ ($.eventName = CreateTrail) || ($.eventName = UpdateTrail) || ($.eventName = DeleteTrail) || ' +
+      '($.eventName = StartLogging) || ($.eventName = StopLogging) }';
+
+    expect(matchesControl(control('4.5'), trailChanges)).toBe(true);
+    expect(matchesControl(control('4.5'), trailChanges.replace(' || ($.eventName = StopLogging)', ''))).toBe(false);
+  });
+
+  it('does not match conditions that are negated or missing', () => {
+    // The condition must exclude sign-ins with MFA, not select them
+    expect(matchesControl(control('4.2'),
+      '{ ($.eventName = ConsoleLogin) && ($.additionalEventData.MFAUsed = Yes) }')).toBe(false);
+    expect(matchesControl(control('4.7'), '{ ($.eventName = DisableKey) || ($.eventName = ScheduleKeyDeletion) }')).toBe(false);
+    expect(matchesControl(control('4.1'), undefined)).toBe(false);
+  });
+});
+
+describe('notifyingAlarms', () => {
+  const alarm = (overrides: Partial<MetricAlarm>): MetricAlarm => ({
+    AlarmName: 'alarm',
+    MetricName: 'UnauthorizedAPICalls',
+    Namespace: 'CISBenchmark',
+    ActionsEnabled: true,
+    AlarmActions: ['arn:aws:sns:us-east-1:111122223333:security'],
+    ...overrides,
+  });
+
+  it('only counts enabled alarms on the metric that notify an SNS topic', () => {
+    const alarms = [
+      alarm({ AlarmName: 'notifies' }),
+      alarm({ AlarmName: 'disabled', ActionsEnabled: false }),
+      alarm({ AlarmName: 'autoscaling', AlarmActions: ['arn:aws:autoscaling:us-east-1:111122223333:scalingPolicy:x'] }),
+      alarm({ AlarmName: 'other metric', MetricName: 'RootAccountUsage' }),
+      alarm({ AlarmName: 'other namespace', Namespace: 'Custom' }),
+    ];
+
+    expect(notifyingAlarms(alarms, 'UnauthorizedAPICalls', 'CISBenchmark').map(match => match.AlarmName)).toEqual(['notifies']);
+  });
+});
@@ -1,72 +1,275 @@
-import { CloudWatchClient, DescribeAlarmsCommand } from '@aws-sdk/client-cloudwatch';
-import { AssetFinding } from '../../db/schema';
+import { CloudWatchClient, DescribeAlarmsCommand, MetricAlarm } from '@aws-sdk/client-cloudwatch';
+import { CloudWatchLogsClient, DescribeMetricFiltersCommand, MetricFilter } from '@aws-sdk/client-cloudwatch-logs';
+import { CloudTrailClient, DescribeTrailsCommand } from '@aws-sdk/client-cloudtrail';
+import { ScanContext, ScanFinding, ScannerModule, ScannerScope } from '../registry';
+import { paginate, truncationFinding } from '../pagination';
 
-type Finding = Omit<AssetFinding, 'id' | 'accountId' | 'region' | 'createdAt' | 'updatedAt'>;
+export interface MonitoringControl {
+  // CIS AWS Foundations Benchmark control
+  id: string;
+  name: string;
+  // Every term must appear in the filter pattern, compared without whitespace and quotes
+  terms: string[];
+}
 
-export class CloudWatchScanner {
-  async scan(account: { accessKeyId: string; secretAccessKey: string; sessionToken?: string }, region: string): Promise<Finding[]> {
-    const client = new CloudWatchClient({
-      credentials: {
-        accessKeyId: account.accessKeyId,
-        secretAccessKey: account.secretAccessKey,
-        sessionToken: account.sessionToken,
-      },
-      region,
-    });
+const eventNames = (...names: string[]) => names.map(name => `$.eventName=${name}`);
 
-    const findings: Finding[] = [];
+// The metric filter patterns of the CIS AWS Foundations Benchmark monitoring section
+export const MONITORING_CONTROLS: MonitoringControl[] = [
+  {
+    id: '4.1',
+    name: 'Unauthorized API Calls',
+    terms: ['$.errorCode=*UnauthorizedOperation', '$.errorCode=AccessDenied*'],
+  },
+  {
+    id: '4.2',
+    name: 'Console Sign-In Without MFA',
+    terms: ['$.eventName=ConsoleLogin', '$.additionalEventData.MFAUsed!=Yes'],
+  },
+  {
+    id: '4.3',
+    name: 'Root Account Usage',
+    terms: ['$.userIdentity.type=Root', '$.userIdentity.invokedByNOTEXISTS', '$.eventType!=AwsServiceEvent'],
+  },
+  {
+    id: '4.4',
+    name: 'IAM Policy Changes',
+    terms: eventNames(
+      'DeleteGroupPolicy', 'DeleteRolePolicy', 'DeleteUserPolicy', 'PutGroupPolicy', 'PutRolePolicy', 'PutUserPolicy',
+      'CreatePolicy', 'DeletePolicy', 'CreatePolicyVersion', 'DeletePolicyVersion', 'AttachRolePolicy', 'DetachRolePolicy',
+      'AttachUserPolicy', 'DetachUserPolicy', 'AttachGroupPolicy', 'DetachGroupPolicy'
+    ),
+  },
+  {
+    id: '4.5',
+    name: 'CloudTrail Configuration Changes',
+    terms: eventNames('CreateTrail', 'UpdateTrail', 'DeleteTrail', 'StartLogging', 'StopLogging'),
+  },
+  {
+    id: '4.6',
+    name: 'Console Authentication Failures',
+    terms: ['$.eventName=ConsoleLogin', '$.errorMessage=Failedauthentication'],
+  },
+  {
+    id: '4.7',
+    name: 'KMS Key Disabling or Deletion',
+    terms: ['$.eventSource=kms.amazonaws.com', ...eventNames('DisableKey', 'ScheduleKeyDeletion')],
+  },
+  {
+    id: '4.8',
+    name: 'S3 Bucket Policy Changes',
+    terms: ['$.eventSource=s3.amazonaws.com', ...eventNames(
+      'PutBucketAcl', 'PutBucketPolicy', 'PutBucketCors', 'PutBucketLifecycle', 'PutBucketReplication',
+      'DeleteBucketPolicy', 'DeleteBucketCors', 'DeleteBucketLifecycle', 'DeleteBucketReplication'
+    )],
+  },
+  {
+    id: '4.9',
+    name: 'AWS Config Changes',
+    terms: ['$.eventSource=config.amazonaws.com', ...eventNames(
+      'StopConfigurationRecorder', 'DeleteDeliveryChannel', 'PutDeliveryChannel', 'PutConfigurationRecorder'
+    )],
+  },
+  {
+    id: '4.10',
+    name: 'Security Group Changes',
+    terms: eventNames(
+      'AuthorizeSecurityGroupIngress', 'AuthorizeSecurityGroupEgress', 'RevokeSecurityGroupIngress',
+      'RevokeSecurityGroupEgress', 'CreateSecurityGroup', 'DeleteSecurityGroup'
+    ),
+  },
+  {
+    id: '4.11',
+    name: 'Network ACL Changes',
+    terms: eventNames(
+      'CreateNetworkAcl', 'CreateNetworkAclEntry', 'DeleteNetworkAcl', 'DeleteNetworkAclEntry',
+      'ReplaceNetworkAclEntry', 'ReplaceNetworkAclAssociation'
+    ),
+  },
+  {
+    id: '4.12',
+    name: 'Network Gateway Changes',
+    terms: eventNames(
+      'CreateCustomerGateway', 'DeleteCustomerGateway', 'AttachInternetGateway', 'CreateInternetGateway',
+      'DeleteInternetGateway', 'DetachInternetGateway'
+    ),
+  },
+  {
+    id: '4.13',
+    name: 'Route Table Changes',
+    terms: eventNames(
+      'CreateRoute', 'CreateRouteTable', 'ReplaceRoute', 'ReplaceRouteTableAssociation',
+      'DeleteRouteTable', 'DeleteRoute', 'DisassociateRouteTable'
+    ),
+  },
+  {
+    id: '4.14',
+    name: 'VPC Changes',
+    terms: eventNames(
+      'CreateVpc', 'DeleteVpc', 'ModifyVpcAttribute', 'AcceptVpcPeeringConnection', 'CreateVpcPeeringConnection',
+      'DeleteVpcPeeringConnection', 'RejectVpcPeeringConnection'
+    ),
+  },
+  {
+    id: '4.15',
+    name: 'AWS Organizations Changes',
+    terms: ['$.eventSource=organizations.amazonaws.com', ...eventNames(
+      'AcceptHandshake', 'AttachPolicy', 'CreateAccount', 'CreateOrganizationalUnit', 'CreatePolicy',
+      'DeclineHandshake', 'DeleteOrganization', 'DeleteOrganizationalUnit', 'DeletePolicy', 'DetachPolicy',
+      'DisablePolicyType', 'EnablePolicyType', 'InviteAccountToOrganization', 'LeaveOrganization',
+      'MoveAccount', 'RemoveAccountFromOrganization', 'UpdatePolicy', 'UpdateOrganizationalUnit'
+    )],
+  },
+];
 
-    try {
-      const alarms = await client.send(new DescribeAlarmsCommand({}));
+function normalizePattern(pattern: string): string {
+  return pattern.replace(/["'\s]/g, '');
+}
 
-      if (!alarms.MetricAlarms?.length) {
+// Whether a metric filter pattern covers every term of the control
+export function matchesControl(control: MonitoringControl, filterPattern?: string): boolean {
+  const pattern = normalizePattern(filterPattern || '');
+  return control.terms.every(term => pattern.includes(term));
+}
+
+// Alarms that notify an SNS topic when the metric breaches
+export function notifyingAlarms(alarms: MetricAlarm[], metricName?: string, namespace?: string): MetricAlarm[] {
+  return alarms.filter(alarm =>
+    alarm.MetricName === metricName && alarm.Namespace === namespace && alarm.ActionsEnabled !== false &&
+    (alarm.AlarmActions || []).some(action => action.startsWith('arn:aws:sns:'))
+  );
+}
+
+export class CloudWatchScanner implements ScannerModule {
+  readonly name = 'CloudWatch';
+  readonly scope: ScannerScope = 'regional';
+  readonly permissions = [
+    'cloudwatch:DescribeAlarms',
+    'cloudtrail:DescribeTrails',
+    'logs:DescribeMetricFilters',
+  ];
+
+  async scan(context: ScanContext): Promise<ScanFinding[]> {
+    const client = context.client(CloudWatchClient);
+    const findings: ScanFinding[] = [];
+
+    const result = await context.check('alarms', () => paginate('CLOUDWATCH_ALARM', async token => {
+      const page = await client.send(new DescribeAlarmsCommand({ NextToken: token }));
+      return { items: page.MetricAlarms, nextToken: page.NextToken };
+    }));
+    if (!result) {
+      context.skip('CIS monitoring metric filters', 'The alarms could not be listed');
+      return findings;
+    }
+    if (result.truncated) {
+      findings.push(truncationFinding(this.name, result));
+    }
+    const alarms = result.items;
+
+    if (!alarms.length) {
+      findings.push({
+        resourceId: 'account',
+        resourceType: 'CLOUDWATCH_ACCOUNT',
+        resourceName: 'Account CloudWatch',
+        service: 'CloudWatch',
+        severity: 'MEDIUM',
+        finding: 'No CloudWatch Alarms',
+        description: 'No CloudWatch alarms are configured in this region.',
+        remediation: 'Configure CloudWatch alarms to monitor critical metrics and receive notifications.',
+      });
+    } else {
+      const disabledAlarms = alarms.filter(alarm => alarm.ActionsEnabled === false);
+
+      if (disabledAlarms.length > 0) {
+        findings.push({
+          resourceId: 'account',
+          resourceType: 'CLOUDWATCH_ACCOUNT',
+          resourceName: 'Account CloudWatch',
+          service: 'CloudWatch',
+          severity: 'LOW',
+          finding: 'Disabled CloudWatch Alarms',
+          description: `${disabledAlarms.length} CloudWatch alarms are disabled.`,
+          remediation: 'Review and enable important CloudWatch alarms or remove unnecessary ones.',
+        });
+      }
+
+      const alarmsWithoutActions = alarms.filter(alarm =>
+        (!alarm.AlarmActions || alarm.AlarmActions.length === 0) &&
+        (!alarm.OKActions || alarm.OKActions.length === 0) &&
+        (!alarm.InsufficientDataActions || alarm.InsufficientDataActions.length === 0)
+      );
+
+      if (alarmsWithoutActions.length > 0) {
         findings.push({
           resourceId: 'account',
           resourceType: 'CLOUDWATCH_ACCOUNT',
           resourceName: 'Account CloudWatch',
           service: 'CloudWatch',
           severity: 'MEDIUM',
-          finding: 'No CloudWatch Alarms',
-          description: 'No CloudWatch alarms are configured in this region.',
-          remediation: 'Configure CloudWatch alarms to monitor critical metrics and receive notifications.',
+          finding: 'Alarms Without Actions',
+          description: `${alarmsWithoutActions.length} CloudWatch alarms have no actions configured.`,
+          remediation: 'Configure actions (such as SNS notifications) for alarms to ensure proper notification of events.',
         });
-      } else {
-        const disabledAlarms = alarms.MetricAlarms.filter(alarm => alarm.ActionsEnabled === false);
-        
-        if (disabledAlarms.length > 0) {
-          findings.push({
-            resourceId: 'account',
-            resourceType: 'CLOUDWATCH_ACCOUNT',
-            resourceName: 'Account CloudWatch',
-            service: 'CloudWatch',
-            severity: 'LOW',
-            finding: 'Disabled CloudWatch Alarms',
-            description: `${disabledAlarms.length} CloudWatch alarms are disabled.`,
-            remediation: 'Review and enable important CloudWatch alarms or remove unnecessary ones.',
-          });
-        }
-
-        const alarmsWithoutActions = alarms.MetricAlarms.filter(alarm => 
-          (!alarm.AlarmActions || alarm.AlarmActions.length === 0) &&
-          (!alarm.OKActions || alarm.OKActions.length === 0) &&
-          (!alarm.InsufficientDataActions || alarm.InsufficientDataActions.length === 0)
-        );
-
-        if (alarmsWithoutActions.length > 0) {
-          findings.push({
-            resourceId: 'account',
-            resourceType: 'CLOUDWATCH_ACCOUNT',
-            resourceName: 'Account CloudWatch',
-            service: 'CloudWatch',
-            severity: 'MEDIUM',
-            finding: 'Alarms Without Actions',
-            description: `${alarmsWithoutActions.length} CloudWatch alarms have no actions configured.`,
-            remediation: 'Configure actions (such as SNS notifications) for alarms to ensure proper notification of events.',
-          });
-        }
       }
-    } catch (error) {
-      console.error('Error scanning CloudWatch:', error);
+    }
+
+    findings.push(...await context.check('CIS monitoring metric filters', () => this.checkMonitoring(context, alarms)) || []);
+
+    return findings;
+  }
+
+  // Matches the metric filters of the CloudTrail log groups in this region against the CIS monitoring controls
+  private async checkMonitoring(context: ScanContext, alarms: MetricAlarm[]): Promise<ScanFinding[]> {
+    const trails = await context.client(CloudTrailClient).send(new DescribeTrailsCommand({}));
+    const logGroups = Array.from(new Set((trails.trailList || [])
+      .map(trail => trail.CloudWatchLogsLogGroupArn)
+      .filter((arn): arn is string => !!arn && arn.split(':')[3] === context.region)
+      .map(arn => arn.split(':')[6])));
+    // Trails without a log group in this region are reported by the CloudTrail module
+    if (logGroups.length === 0) {
+      return [];
+    }
+
+    const logs = context.client(CloudWatchLogsClient);
+    const filters: MetricFilter[] = [];
+    const findings: ScanFinding[] = [];
+    for (const logGroupName of logGroups) {
+      const result = await paginate('METRIC_FILTER', async nextToken => {
+        const page = await logs.send(new DescribeMetricFiltersCommand({ logGroupName, nextToken }));
+        return { items: page.metricFilters, nextToken: page.nextToken };
+      });
+      if (result.truncated) {
+        findings.push(truncationFinding(this.name, result, { resourceId: logGroupName, resourceName: logGroupName }));
+      }
+      filters.push(...result.items);
+    }
+
+    for (const control of MONITORING_CONTROLS) {
+      const matching = filters.filter(filter => matchesControl(control, filter.filterPattern));
+      const alarmed = matching.filter(filter => (filter.metricTransformations || []).some(metric =>
+        notifyingAlarms(alarms, metric.metricName, metric.metricNamespace).length > 0
+      ));
+      if (alarmed.length > 0) continue;
+
+      findings.push({
+        resourceId: 'account',
+        resourceType: 'CLOUDWATCH_ACCOUNT',
+        resourceName: 'Account CloudWatch',
+        service: 'CloudWatch',
+        severity: 'MEDIUM',
+        finding: `No Alarm for ${control.name}`,
+        description: matching.length === 0
+          ? `No metric filter on the CloudTrail log group(s) ${logGroups.join(', ')} matches the CIS ${control.id} pattern for ${control.name}.`
+          : `Metric filter(s) ${matching.map(filter => filter.filterName).join(', ')} match the CIS ${control.id} pattern for ` +
+            `${control.name}, but no enabled alarm on their metrics notifies an SNS topic.`,
+        remediation: `Create a metric filter for ${control.name} on the CloudTrail log group, ` +
+          'and an alarm on its metric that notifies an SNS topic with subscribers.',
+        evidence: {
+          control: control.id,
+          logGroups,
+          filters: matching.map(filter => ({ name: filter.filterName, logGroup: filter.logGroupName })),
+        },
+      });
     }
 
     return findings;
@@ -0,0 +1,259 @@
+import {
+  ConfigServiceClient,
+  DescribeConfigurationRecordersCommand,
+  DescribeConfigurationRecorderStatusCommand,
+  DescribeDeliveryChannelsCommand,
+  DescribeDeliveryChannelStatusCommand,
+  DescribeConfigRulesCommand,
+  DescribeComplianceByConfigRuleCommand,
+  GetComplianceDetailsByConfigRuleCommand,
+  ConfigExportDeliveryInfo,
+  ConfigRule,
+  ConfigStreamDeliveryInfo,
+} from '@aws-sdk/client-config-service';
+import { ScanContext, ScanFinding, ScannerModule, ScannerScope } from '../registry';
+import { chunk, paginate, truncationFinding } from '../pagination';
+
+// DescribeConfigRules accepts at most 25 rule names per call
+const DESCRIBE_RULES_BATCH_SIZE = 25;
+
+export class ConfigScanner implements ScannerModule {
+  readonly name = 'Config';
+  // Global resources should be recorded in exactly one region, so all regions are checked together
+  readonly scope: ScannerScope = 'global';
+  readonly permissions = [
+    'config:DescribeConfigurationRecorders',
+    'config:DescribeConfigurationRecorderStatus',
+    'config:DescribeDeliveryChannels',
+    'config:DescribeDeliveryChannelStatus',
+    'config:DescribeConfigRules',
+    'config:DescribeComplianceByConfigRule',
+    'config:GetComplianceDetailsByConfigRule',
+  ];
+
+  async scan(context: ScanContext): Promise<ScanFinding[]> {
+    const findings: ScanFinding[] = [];
+    const globalRegions: string[] = [];
+    let checkedRegions = 0;
+
+    // Regions are scanned one after another so that recorded snapshots replay in the same order
+    for (const region of context.regions) {
+      const recordsGlobal = await context.check('configuration recorder', () =>
+        this.scanRecorder(context, region, findings), region
+      );
+      if (recordsGlobal !== undefined) {
+        checkedRegions++;
+      }
+      if (recordsGlobal) {
+        globalRegions.push(region);
+      }
+
+      findings.push(...await context.check('delivery channel', () => this.scanDeliveryChannel(context, region), region) || []);
+      findings.push(...await context.check('rule results', () => this.importRuleResults(context, region), region) || []);
+    }
+
+    const base = { resourceType: 'CONFIG_ACCOUNT', resourceName: 'Account Config', service: 'Config' };
+    if (checkedRegions === context.regions.length && globalRegions.length === 0) {
+      findings.push({
+        ...base,
+        resourceId: 'account',
+        severity: 'MEDIUM',
+        finding: 'Global Resources Not Recorded',
+        description: 'No scanned region records global resource types such as IAM users, roles and policies.',
+        remediation: 'Enable recording of global resource types in exactly one region.',
+      });
+    }
+    if (checkedRegions < context.regions.length) {
+      context.skip('global resource recording', 'The configuration recorder could not be checked in every region');
+    }
+    if (globalRegions.length > 1) {
+      findings.push({
+        ...base,
+        resourceId: 'account',
+        severity: 'LOW',
+        finding: 'Global Resources Recorded in Multiple Regions',
+        description: `Global resource types are recorded in ${globalRegions.length} regions: ${globalRegions.join(', ')}.`,
+        remediation: 'Record global resource types in a single region to avoid duplicate configuration items and costs.',
+        evidence: { regions: globalRegions },
+      });
+    }
+
+    return findings;
+  }
+
+  // Returns whether the region is recording global resource types
+  private async scanRecorder(context: ScanContext, region: string, findings: ScanFinding[]): Promise<boolean> {
+    const client = context.client(ConfigServiceClient, region);
+    const base = { resourceType: 'CONFIG_RECORDER', service: 'Config', region };
+
+    const recorders = await client.send(new DescribeConfigurationRecordersCommand({}));
+    const recorder = recorders.ConfigurationRecorders?.[0];
+    if (!recorder?.name) {
+      findings.push({
+        ...base,
+        resourceId: 'account',
+        resourceType: 'CONFIG_ACCOUNT',
+        resourceName: 'Account Config',
+        severity: 'HIGH',
+        finding: 'No Config Recorder',
+        description: `AWS Config has no configuration recorder in ${region}.`,
+        remediation: 'Create a configuration recorder that records all resource types and start it.',
+      });
+      return false;
+    }
+
+    const named = { ...base, resourceId: recorder.name, resourceName: recorder.name };
+    const statuses = await client.send(new DescribeConfigurationRecorderStatusCommand({
+      ConfigurationRecorderNames: [recorder.name],
+    }));
+    const status = statuses.ConfigurationRecordersStatus?.[0];
+    if (!status?.recording) {
+      findings.push({
+        ...named,
+        severity: 'HIGH',
+        finding: 'Config Recorder Stopped',
+        description: `Configuration recorder ${recorder.name} in ${region} is not recording.`,
+        remediation: 'Start the configuration recorder.',
+      });
+    } else if (status.lastStatus === 'Failure') {
+      findings.push({
+        ...named,
+        severity: 'MEDIUM',
+        finding: 'Config Recording Failing',
+        description: `The last recording attempt of ${recorder.name} in ${region} failed.`,
+        remediation: 'Check that the recorder role can read the recorded resources and fix the reported error.',
+        evidence: { lastErrorCode: status.lastErrorCode, lastErrorMessage: status.lastErrorMessage },
+      });
+    }
+
+    const group = recorder.recordingGroup;
+    if (group && !group.allSupported) {
+      findings.push({
+        ...named,
+        severity: 'MEDIUM',
+        finding: 'Config Not Recording All Resources',
+        description: `Configuration recorder ${recorder.name} in ${region} only records selected resource types.`,
+        remediation: 'Record all supported resource types so that configuration changes to any resource are captured.',
+        evidence: { recordingGroup: group },
+      });
+    }
+
+    return !!(status?.recording && group?.allSupported && group.includeGlobalResourceTypes);
+  }
+
+  private async scanDeliveryChannel(context: ScanContext, region: string): Promise<ScanFinding[]> {
+    const client = context.client(ConfigServiceClient, region);
+    const channels = await client.send(new DescribeDeliveryChannelsCommand({}));
+    const channel = channels.DeliveryChannels?.[0];
+    if (!channel?.name) {
+      return [{
+        resourceId: 'account',
+        resourceType: 'CONFIG_ACCOUNT',
+        resourceName: 'Account Config',
+        service: 'Config',
+        region,
+        severity: 'MEDIUM',
+        finding: 'No Config Delivery Channel',
+        description: `AWS Config has no delivery channel in ${region}, so configuration history is not delivered.`,
+        remediation: 'Create a delivery channel that delivers to an S3 bucket.',
+      }];
+    }
+
+    const statuses = await client.send(new DescribeDeliveryChannelStatusCommand({ DeliveryChannelNames: [channel.name] }));
+    const status = statuses.DeliveryChannelsStatus?.[0];
+    const deliveries: Record<string, ConfigExportDeliveryInfo | ConfigStreamDeliveryInfo | undefined> = {
+      history: status?.configHistoryDeliveryInfo,
+      snapshot: status?.configSnapshotDeliveryInfo,
+      stream: status?.configStreamDeliveryInfo,
+    };
+    const failed = Object.entries(deliveries).filter(([, info]) => info?.lastStatus === 'Failure');
+    if (failed.length === 0) {
+      return [];
+    }
+
+    return [{
+      resourceId: channel.name,
+      resourceType: 'CONFIG_DELIVERY_CHANNEL',
+      resourceName: channel.name,
+      service: 'Config',
+      region,
+      severity: 'MEDIUM',
+      finding: 'Config Delivery Failing',
+      description: `The latest ${failed.map(([kind]) => kind).join(' and ')} delivery of ${channel.name} in ${region} failed.`,
+      remediation: 'Check that the delivery bucket and SNS topic exist and that AWS Config is allowed to write to them.',
+      evidence: {
+        s3BucketName: channel.s3BucketName,
+        failures: Object.fromEntries(failed.map(([kind, info]) => [kind, {
+          lastErrorCode: info?.lastErrorCode,
+          lastErrorMessage: info?.lastErrorMessage,
+        }])),
+      },
+    }];
+  }
+
+  // Non-compliant evaluations of AWS managed rules, so they show up next to the other checks
+  private async importRuleResults(context: ScanContext, region: string): Promise<ScanFinding[]> {
+    const client = context.client(ConfigServiceClient, region);
+    const findings: ScanFinding[] = [];
+    const compliance = await paginate('CONFIG_RULE', async token => {
+      const page = await client.send(new DescribeComplianceByConfigRuleCommand({
+        ComplianceTypes: ['NON_COMPLIANT'],
+        NextToken: token,
+      }));
+      return { items: page.ComplianceByConfigRules, nextToken: page.NextToken };
+    });
+    if (compliance.truncated) {
+      findings.push(truncationFinding(this.name, compliance, { region }));
+    }
+    const ruleNames = compliance.items
+      .map(rule => rule.ConfigRuleName)
+      .filter((name): name is string => !!name);
+
+    const rules: ConfigRule[] = [];
+    for (const names of chunk(ruleNames, DESCRIBE_RULES_BATCH_SIZE)) {
+      rules.push(...(await client.send(new DescribeConfigRulesCommand({ ConfigRuleNames: names }))).ConfigRules || []);
+    }
+
+    for (const rule of rules) {
+      if (!rule.ConfigRuleName || rule.Source?.Owner !== 'AWS') continue;
+
+      const details = await paginate('CONFIG_RULE_RESULT', async token => {
+        const page = await client.send(new GetComplianceDetailsByConfigRuleCommand({
+          ConfigRuleName: rule.ConfigRuleName,
+          ComplianceTypes: ['NON_COMPLIANT'],
+          Limit: 100, // The largest page the API returns
+          NextToken: token,
+        }));
+        return { items: page.EvaluationResults, nextToken: page.NextToken };
+      });
+      if (details.truncated) {
+        findings.push(truncationFinding(this.name, details, {
+          resourceId: rule.ConfigRuleArn || rule.ConfigRuleName,
+          resourceName: rule.ConfigRuleName,
+          region,
+        }));
+      }
+      for (const result of details.items) {
+        const qualifier = result.EvaluationResultIdentifier?.EvaluationResultQualifier;
+        if (!qualifier?.ResourceId) continue;
+        findings.push({
+          resourceId: qualifier.ResourceId,
+          resourceType: qualifier.ResourceType || 'UNKNOWN',
+          resourceName: qualifier.ResourceId,
+          service: 'Config',
+          region,
+          severity: 'MEDIUM',
+          finding: `Config Rule ${rule.ConfigRuleName} Non-Compliant`,
+          description: rule.Description || `Resource does not comply with the AWS Config rule ${rule.ConfigRuleName}.`,
+          remediation: `Bring the resource in line with the AWS managed rule ${rule.Source.SourceIdentifier}, or adjust the rule parameters.`,
+          evidence: {
+            configRuleName: rule.ConfigRuleName,
+            sourceIdentifier: rule.Source.SourceIdentifier,
+            annotation: result.Annotation,
+          },
+        });
+      }
+    }
+    return findings;
+  }
+}
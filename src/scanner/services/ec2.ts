@@ -0,0 +1,222 @@
+import {
+  EC2Client,
+  DescribeSecurityGroupsCommand,
+  DescribeInstancesCommand,
+  DescribeVolumesCommand,
+  GetEbsEncryptionByDefaultCommand,
+  IpPermission,
+  SecurityGroup,
+} from '@aws-sdk/client-ec2';
+import { ScanContext, ScanFinding, ScannerModule, ScannerScope } from '../registry';
+import { paginate, truncationFinding } from '../pagination';
+
+const OPEN_CIDRS = ['0.0.0.0/0', '::/0'];
+
+const ADMIN_PORTS: Record<number, string> = {
+  22: 'SSH',
+  3389: 'RDP',
+  5985: 'WinRM',
+  5986: 'WinRM',
+};
+
+const DATABASE_PORTS: Record<number, string> = {
+  1433: 'SQL Server',
+  1521: 'Oracle',
+  3306: 'MySQL',
+  5432: 'PostgreSQL',
+  5439: 'Redshift',
+  6379: 'Redis',
+  9200: 'Elasticsearch',
+  11211: 'Memcached',
+  27017: 'MongoDB',
+};
+
+interface ExposedRule {
+  protocol: string;
+  fromPort?: number;
+  toPort?: number;
+  source: string;
+  ports: string[];
+}
+
+// Open rules from anywhere that reach any of the given TCP ports
+function exposedRules(permissions: IpPermission[], ports: Record<number, string>): ExposedRule[] {
+  const rules: ExposedRule[] = [];
+  for (const permission of permissions) {
+    const protocol = permission.IpProtocol || '';
+    if (protocol !== '-1' && protocol !== 'tcp' && protocol !== '6') continue;
+
+    const reached = Object.entries(ports)
+      .filter(([port]) => protocol === '-1' ||
+        (Number(port) >= (permission.FromPort ?? 0) && Number(port) <= (permission.ToPort ?? 65535)))
+      .map(([port, name]) => `${port} (${name})`);
+    if (reached.length === 0) continue;
+
+    const sources = [
+      ...(permission.IpRanges || []).map(range => range.CidrIp),
+      ...(permission.Ipv6Ranges || []).map(range => range.CidrIpv6),
+    ].filter((source): source is string => !!source && OPEN_CIDRS.includes(source));
+    for (const source of sources) {
+      rules.push({ protocol, fromPort: permission.FromPort, toPort: permission.ToPort, source, ports: reached });
+    }
+  }
+  return rules;
+}
+
+export class EC2Scanner implements ScannerModule {
+  readonly name = 'EC2';
+  readonly scope: ScannerScope = 'regional';
+  readonly permissions = [
+    'ec2:DescribeSecurityGroups',
+    'ec2:DescribeInstances',
+    'ec2:DescribeVolumes',
+    'ec2:GetEbsEncryptionByDefault',
+  ];
+
+  async scan(context: ScanContext): Promise<ScanFinding[]> {
+    const client = context.client(EC2Client);
+    const findings: ScanFinding[] = [];
+
+    await context.check('security groups', async () => {
+      const groups = await paginate('EC2_SECURITY_GROUP', async token => {
+        const page = await client.send(new DescribeSecurityGroupsCommand({ NextToken: token }));
+        return { items: page.SecurityGroups, nextToken: page.NextToken };
+      });
+      if (groups.truncated) {
+        findings.push(truncationFinding(this.name, groups));
+      }
+      for (const group of groups.items) {
+        findings.push(...this.checkSecurityGroup(group));
+      }
+    });
+
+    await context.check('instances', async () => {
+      const instances = await paginate('EC2_INSTANCE', async token => {
+        const page = await client.send(new DescribeInstancesCommand({ NextToken: token }));
+        return { items: (page.Reservations || []).flatMap(reservation => reservation.Instances || []), nextToken: page.NextToken };
+      });
+      if (instances.truncated) {
+        findings.push(truncationFinding(this.name, instances));
+      }
+      for (const instance of instances.items) {
+        if (!instance.InstanceId || instance.State?.Name === 'terminated') continue;
+
+        const metadata = instance.MetadataOptions;
+        const imdsv1 = metadata?.HttpEndpoint !== 'disabled' && metadata?.HttpTokens !== 'required';
+        if (instance.PublicIpAddress && imdsv1) {
+          const name = instance.Tags?.find(tag => tag.Key === 'Name')?.Value || instance.InstanceId;
+          findings.push({
+            resourceId: instance.InstanceId,
+            resourceType: 'EC2_INSTANCE',
+            resourceName: name,
+            service: 'EC2',
+            severity: 'HIGH',
+            finding: 'Public Instance Allows IMDSv1',
+            description: `Instance ${name} has public IP ${instance.PublicIpAddress} and still accepts IMDSv1 requests.`,
+            remediation: 'Require IMDSv2 by setting HttpTokens to required on the instance metadata options.',
+            evidence: {
+              publicIpAddress: instance.PublicIpAddress,
+              httpTokens: metadata?.HttpTokens,
+              httpEndpoint: metadata?.HttpEndpoint,
+            },
+          });
+        }
+      }
+    });
+
+    await context.check('volumes', async () => {
+      const volumes = await paginate('EBS_VOLUME', async token => {
+        const page = await client.send(new DescribeVolumesCommand({ NextToken: token }));
+        return { items: page.Volumes, nextToken: page.NextToken };
+      });
+      if (volumes.truncated) {
+        findings.push(truncationFinding(this.name, volumes));
+      }
+      for (const volume of volumes.items) {
+        if (!volume.VolumeId || volume.Encrypted) continue;
+        findings.push({
+          resourceId: volume.VolumeId,
+          resourceType: 'EBS_VOLUME',
+          resourceName: volume.Tags?.find(tag => tag.Key === 'Name')?.Value || volume.VolumeId,
+          service: 'EC2',
+          severity: 'MEDIUM',
+          finding: 'Unencrypted EBS Volume',
+          description: `EBS volume ${volume.VolumeId} is not encrypted.`,
+          remediation: 'Copy the data to an encrypted volume (e.g. through an encrypted snapshot) and delete the unencrypted one.',
+          evidence: {
+            attachedTo: (volume.Attachments || []).map(attachment => attachment.InstanceId),
+            size: volume.Size,
+          },
+        });
+      }
+    });
+
+    await context.check('EBS encryption by default', async () => {
+      const encryption = await client.send(new GetEbsEncryptionByDefaultCommand({}));
+      if (!encryption.EbsEncryptionByDefault) {
+        findings.push({
+          resourceId: 'account',
+          resourceType: 'EC2_ACCOUNT',
+          resourceName: 'Account EC2',
+          service: 'EC2',
+          severity: 'MEDIUM',
+          finding: 'EBS Encryption By Default Disabled',
+          description: 'New EBS volumes in this region are not encrypted by default.',
+          remediation: 'Enable EBS encryption by default in the EC2 settings of the region.',
+        });
+      }
+    });
+
+    return findings;
+  }
+
+  private checkSecurityGroup(group: SecurityGroup): ScanFinding[] {
+    if (!group.GroupId) return [];
+    const base = {
+      resourceId: group.GroupId,
+      resourceType: 'EC2_SECURITY_GROUP',
+      resourceName: group.GroupName || group.GroupId,
+      service: 'EC2',
+    };
+    const findings: ScanFinding[] = [];
+    const ingress = group.IpPermissions || [];
+
+    const adminRules = exposedRules(ingress, ADMIN_PORTS);
+    if (adminRules.length > 0) {
+      findings.push({
+        ...base,
+        severity: 'HIGH',
+        finding: 'Administrative Ports Open to the Internet',
+        description: `Security group ${base.resourceName} allows ingress from anywhere to administrative ports.`,
+        remediation: 'Restrict SSH, RDP and WinRM to known networks, or use Systems Manager Session Manager instead.',
+        evidence: { vpcId: group.VpcId, rules: adminRules },
+      });
+    }
+
+    const databaseRules = exposedRules(ingress, DATABASE_PORTS);
+    if (databaseRules.length > 0) {
+      findings.push({
+        ...base,
+        severity: 'HIGH',
+        finding: 'Database Ports Open to the Internet',
+        description: `Security group ${base.resourceName} allows ingress from anywhere to database ports.`,
+        remediation: 'Restrict database ports to the application security groups or private networks that need them.',
+        evidence: { vpcId: group.VpcId, rules: databaseRules },
+      });
+    }
+
+    const egress = group.IpPermissionsEgress || [];
+    if (group.GroupName === 'default' && (ingress.length > 0 || egress.length > 0)) {
+      findings.push({
+        ...base,
+        severity: 'MEDIUM',
+        finding: 'Default Security Group Allows Traffic',
+        description: `The default security group of ${group.VpcId || 'the VPC'} has inbound or outbound rules.`,
+        remediation: 'Remove all rules from default security groups and assign purpose-built groups to resources.',
+        evidence: { vpcId: group.VpcId, ingress, egress },
+      });
+    }
+
+    return findings;
+  }
+}
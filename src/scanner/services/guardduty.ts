@@ -1,80 +1,119 @@
-import { GuardDutyClient, ListFindingsCommand, GetFindingsCommand, ListDetectorsCommand } from '@aws-sdk/client-guardduty';
+import { GuardDutyClient, ListFindingsCommand, GetFindingsCommand, ListDetectorsCommand, Finding as GuardDutyFinding } from '@aws-sdk/client-guardduty';
 import { AssetFinding } from '../../db/schema';
+import { ScanContext, ScannerModule, ScannerScope } from '../registry';
+import { chunk, paginate, truncationFinding } from '../pagination';
 import logger from '../../logger'; // Assuming you have a logger module
 
 type Finding = Omit<AssetFinding, 'id' | 'accountId' | 'region' | 'createdAt' | 'updatedAt'>;
 
-export class GuardDutyScanner {
-  async scan(account: { accessKeyId: string; secretAccessKey: string; sessionToken?: string }, region: string): Promise<Finding[]> {
-    logger.info(`[GuardDuty] Starting scan in region ${region} for account ${account.accessKeyId}`);
-    
-    if (!account.accessKeyId || !account.secretAccessKey) {
-      logger.error('[GuardDuty] Missing AWS credentials');
-      throw new Error('Missing AWS credentials');
-    }
+// GetFindings accepts at most 50 finding IDs per call
+const GET_FINDINGS_BATCH_SIZE = 50;
+
+// The affected resource of a GuardDuty finding, falling back to the finding itself when it names none we know
+function findingResource(finding: GuardDutyFinding): { resourceId: string; resourceType: string } {
+  const resource = finding.Resource;
+  const bucket = resource?.S3BucketDetails?.[0];
+  const candidates: [string | undefined, string][] = [
+    [resource?.InstanceDetails?.InstanceId, 'EC2_INSTANCE'],
+    [resource?.AccessKeyDetails?.AccessKeyId, 'IAM_ACCESS_KEY'],
+    [bucket?.Arn || (bucket?.Name && `arn:aws:s3:::${bucket.Name}`), 'S3_BUCKET'],
+    [resource?.EksClusterDetails?.Arn, 'EKS_CLUSTER'],
+    [resource?.EcsClusterDetails?.Arn, 'ECS_CLUSTER'],
+    [resource?.LambdaDetails?.FunctionArn, 'LAMBDA_FUNCTION'],
+    [resource?.RdsDbInstanceDetails?.DbInstanceArn, 'RDS_INSTANCE'],
+    [resource?.RdsLimitlessDbDetails?.DbShardGroupArn, 'RDS_SHARD_GROUP'],
+    [resource?.EbsSnapshotDetails?.SnapshotArn, 'EBS_SNAPSHOT'],
+    [resource?.Ec2ImageDetails?.ImageArn, 'EC2_IMAGE'],
+    [resource?.RecoveryPointDetails?.RecoveryPointArn, 'BACKUP_RECOVERY_POINT'],
+    [resource?.ContainerDetails?.Id, 'CONTAINER'],
+  ];
+  const match = candidates.find(([id]) => id);
+  if (match) {
+    return { resourceId: match[0]!, resourceType: match[1] };
+  }
+  return { resourceId: finding.Arn || finding.Id || 'unknown', resourceType: 'GUARDDUTY_FINDING' };
+}
+
+export class GuardDutyScanner implements ScannerModule {
+  readonly name = 'GuardDuty';
+  readonly scope: ScannerScope = 'regional';
+  readonly permissions = [
+    'guardduty:ListDetectors',
+    'guardduty:ListFindings',
+    'guardduty:GetFindings',
+  ];
+
+  async scan(context: ScanContext): Promise<Finding[]> {
+    const { region } = context;
+    logger.info(`[GuardDuty] Starting scan in region ${region}`);
 
     logger.info(`[GuardDuty] Creating GuardDuty client for region ${region}`);
-    const client = new GuardDutyClient({
-      credentials: {
-        accessKeyId: account.accessKeyId,
-        secretAccessKey: account.secretAccessKey,
-        sessionToken: account.sessionToken,
-      },
-      region,
-    });
+    const client = context.client(GuardDutyClient);
 
     const findings: Finding[] = [];
 
-    try {
-      // First check if GuardDuty is enabled by listing detectors
-      logger.info(`[GuardDuty] Checking if GuardDuty is enabled in ${region}`);
-      const detectors = await client.send(new ListDetectorsCommand({}));
-      
-      if (!detectors.DetectorIds?.length) {
-        logger.warn(`[GuardDuty] Not enabled in ${region}`);
-        findings.push({
-          resourceId: 'account',
-          resourceType: 'GUARDDUTY_ACCOUNT',
-          resourceName: 'Account GuardDuty',
-          service: 'GuardDuty',
-          severity: 'HIGH',
-          finding: 'GuardDuty Not Enabled',
-          description: 'GuardDuty is not enabled in this region.',
-          remediation: 'Enable GuardDuty to detect potential security threats and unauthorized behavior.',
-        });
-        return findings;
-      }
+    // First check if GuardDuty is enabled by listing detectors
+    logger.info(`[GuardDuty] Checking if GuardDuty is enabled in ${region}`);
+    const detectors = await context.check('detectors', () => paginate('GUARDDUTY_DETECTOR', async token => {
+      const page = await client.send(new ListDetectorsCommand({ NextToken: token }));
+      return { items: page.DetectorIds, nextToken: page.NextToken };
+    }));
+    if (!detectors) {
+      context.skip('findings', 'The detectors could not be listed');
+      return findings;
+    }
+
+    if (!detectors.items.length) {
+      logger.warn(`[GuardDuty] Not enabled in ${region}`);
+      findings.push({
+        resourceId: 'account',
+        resourceType: 'GUARDDUTY_ACCOUNT',
+        resourceName: 'Account GuardDuty',
+        service: 'GuardDuty',
+        severity: 'HIGH',
+        finding: 'GuardDuty Not Enabled',
+        description: 'GuardDuty is not enabled in this region.',
+        remediation: 'Enable GuardDuty to detect potential security threats and unauthorized behavior.',
+      });
+      return findings;
+    }
 
-      const detectorId = detectors.DetectorIds[0];
-      logger.info(`[GuardDuty] Found detector ${detectorId} in ${region}`);
+    const detectorId = detectors.items[0];
+    logger.info(`[GuardDuty] Found detector ${detectorId} in ${region}`);
 
+    await context.check('findings', async () => {
       // Get GuardDuty findings
       logger.info(`[GuardDuty] Fetching findings for detector ${detectorId}`);
-      const listFindingsResult = await client.send(new ListFindingsCommand({
-        DetectorId: detectorId,
-        FindingCriteria: {
-          Criterion: {
-            severity: {
-              Gte: 4, // Medium severity and above
+      const findingIds = await paginate('GUARDDUTY_FINDING', async token => {
+        const page = await client.send(new ListFindingsCommand({
+          DetectorId: detectorId,
+          FindingCriteria: {
+            Criterion: {
+              severity: {
+                Gte: 4, // Medium severity and above
+              },
             },
           },
-        },
-      }));
+          NextToken: token,
+        }));
+        return { items: page.FindingIds, nextToken: page.NextToken };
+      });
 
-      logger.info(`[GuardDuty] Found ${listFindingsResult.FindingIds?.length || 0} findings`);
+      logger.info(`[GuardDuty] Found ${findingIds.items.length} findings`);
+      if (findingIds.truncated) {
+        findings.push(truncationFinding(this.name, findingIds));
+      }
 
-      if (listFindingsResult.FindingIds && listFindingsResult.FindingIds.length > 0) {
+      for (const batch of chunk(findingIds.items, GET_FINDINGS_BATCH_SIZE)) {
         const guardDutyFindings = await client.send(new GetFindingsCommand({
           DetectorId: detectorId,
-          FindingIds: listFindingsResult.FindingIds,
+          FindingIds: batch,
         }));
 
         logger.info(`[GuardDuty] Retrieved ${guardDutyFindings.Findings?.length || 0} finding details`);
 
         for (const finding of guardDutyFindings.Findings || []) {
-          const resource = finding.Resource as any;
-          const resourceId = resource?.Id || 'unknown';
-          const resourceType = resource?.Type || 'GUARDDUTY_FINDING';
+          const { resourceId, resourceType } = findingResource(finding);
 
           findings.push({
             resourceId,
@@ -88,21 +127,7 @@ export class GuardDutyScanner {
           });
         }
       }
-    } catch (error) {
-      logger.error('[GuardDuty] Error scanning:', error);
-      if (error instanceof Error) {
-        if (error.name === 'UnrecognizedClientException' || (error as any)?.$metadata?.httpStatusCode === 403) {
-          throw error; // Propagate credential errors
-        }
-        if (error.message.includes('credentials')) {
-          throw new Error('AWS credentials error: ' + error.message);
-        }
-        if (error.message.includes('AccessDenied')) {
-          throw new Error('Access denied to GuardDuty. Please check IAM permissions.');
-        }
-      }
-      throw error;
-    }
+    });
 
     logger.info(`[GuardDuty] Scan complete in ${region}. Found ${findings.length} findings`);
     return findings;
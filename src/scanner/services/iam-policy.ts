@@ -0,0 +1,248 @@
+import {
+  IAMClient,
+  GetAccountAuthorizationDetailsCommand,
+  GetPolicyCommand,
+  GetPolicyVersionCommand,
+  AttachedPolicy,
+  GroupDetail,
+  PolicyDetail,
+  RoleDetail,
+  UserDetail,
+} from '@aws-sdk/client-iam';
+import { ScanContext, ScanFinding, ScannerModule, ScannerScope } from '../registry';
+import { PaginatedResult, paginate, truncationFinding } from '../pagination';
+import {
+  PolicySource,
+  ResolvedStatement,
+  analyzeTrustPolicy,
+  describeStatements,
+  findAdministratorStatements,
+  findEscalationPaths,
+  findWildcardPassRole,
+  resolveStatements,
+} from '../policies';
+
+interface AuthorizationDetails {
+  users: UserDetail[];
+  groups: GroupDetail[];
+  roles: RoleDetail[];
+  // Default version documents of customer managed policies, by ARN
+  managedPolicies: Map<string, string>;
+  // Set when the page limit cut the listing short
+  truncated?: PaginatedResult<unknown>;
+}
+
+// Service-linked roles are managed by AWS and can't be changed
+const SERVICE_LINKED_PATH = '/aws-service-role/';
+
+function statementEvidence(statements: ResolvedStatement[]) {
+  return statements.map(({ policy, statement }) => ({ policy, statement }));
+}
+
+export class IAMPolicyScanner implements ScannerModule {
+  readonly name = 'IAMPolicy';
+  readonly scope: ScannerScope = 'global';
+  readonly permissions = [
+    'iam:GetAccountAuthorizationDetails',
+    'iam:GetPolicy',
+    'iam:GetPolicyVersion',
+  ];
+
+  async scan(context: ScanContext): Promise<ScanFinding[]> {
+    const client = context.client(IAMClient);
+    const findings: ScanFinding[] = [];
+
+    const details = await context.check('authorization details', () => this.getAuthorizationDetails(client));
+    if (!details) {
+      return findings;
+    }
+    if (details.truncated) {
+      findings.push(truncationFinding(this.name, details.truncated));
+    }
+
+    // AWS managed policies are fetched when first attached, and shared by every principal
+    const awsManaged = new Map<string, Promise<string | undefined>>();
+    const managedDocument = (policy: AttachedPolicy): Promise<string | undefined> => {
+      const arn = policy.PolicyArn!;
+      if (details.managedPolicies.has(arn)) {
+        return Promise.resolve(details.managedPolicies.get(arn));
+      }
+      if (!awsManaged.has(arn)) {
+        awsManaged.set(arn, context.check('AWS managed policies', () => this.getManagedPolicy(client, arn)));
+      }
+      return awsManaged.get(arn)!;
+    };
+
+    const policySources = async (
+      owner: string,
+      inline: PolicyDetail[] = [],
+      attached: AttachedPolicy[] = []
+    ): Promise<PolicySource[]> => {
+      const sources: PolicySource[] = inline
+        .filter(policy => policy.PolicyDocument)
+        .map(policy => ({ name: `${owner} inline policy ${policy.PolicyName}`, document: policy.PolicyDocument! }));
+      for (const policy of attached) {
+        if (!policy.PolicyArn) continue;
+        const document = await managedDocument(policy);
+        if (document) {
+          sources.push({ name: policy.PolicyArn, document });
+        }
+      }
+      return sources;
+    };
+
+    const groups = new Map(details.groups.map(group => [group.GroupName, group]));
+    for (const user of details.users) {
+      if (!user.Arn || !user.UserName) continue;
+      const resource = { resourceId: user.Arn, resourceType: 'IAM_USER', resourceName: user.UserName };
+      await context.check('user policies', async () => {
+        const sources = await policySources(`user ${user.UserName}`, user.UserPolicyList, user.AttachedManagedPolicies);
+        for (const groupName of user.GroupList || []) {
+          const group = groups.get(groupName);
+          sources.push(...await policySources(`group ${groupName}`, group?.GroupPolicyList, group?.AttachedManagedPolicies));
+        }
+        findings.push(...this.checkPermissions(resource, `User ${user.UserName}`, resolveStatements(sources)));
+      });
+    }
+
+    for (const role of details.roles) {
+      if (!role.Arn || !role.RoleName || role.Path?.startsWith(SERVICE_LINKED_PATH)) continue;
+      const resource = { resourceId: role.Arn, resourceType: 'IAM_ROLE', resourceName: role.RoleName };
+      await context.check('role policies', async () => {
+        const sources = await policySources(`role ${role.RoleName}`, role.RolePolicyList, role.AttachedManagedPolicies);
+        findings.push(...this.checkPermissions(resource, `Role ${role.RoleName}`, resolveStatements(sources)));
+        if (role.AssumeRolePolicyDocument) {
+          findings.push(...this.checkTrustPolicy(context, resource, role.AssumeRolePolicyDocument));
+        }
+      });
+    }
+
+    return findings;
+  }
+
+  private async getAuthorizationDetails(client: IAMClient): Promise<AuthorizationDetails> {
+    const details: AuthorizationDetails = { users: [], groups: [], roles: [], managedPolicies: new Map() };
+    const pages = await paginate('IAM_AUTHORIZATION_DETAILS', async marker => {
+      const page = await client.send(new GetAccountAuthorizationDetailsCommand({
+        Filter: ['User', 'Group', 'Role', 'LocalManagedPolicy'],
+        Marker: marker,
+      }));
+      return { items: [page], nextToken: page.IsTruncated ? page.Marker : undefined };
+    });
+    if (pages.truncated) {
+      details.truncated = pages;
+    }
+
+    for (const page of pages.items) {
+      details.users.push(...page.UserDetailList || []);
+      details.groups.push(...page.GroupDetailList || []);
+      details.roles.push(...page.RoleDetailList || []);
+      for (const policy of page.Policies || []) {
+        const version = policy.PolicyVersionList?.find(v => v.IsDefaultVersion);
+        if (policy.Arn && version?.Document) {
+          details.managedPolicies.set(policy.Arn, version.Document);
+        }
+      }
+    }
+    return details;
+  }
+
+  private async getManagedPolicy(client: IAMClient, arn: string): Promise<string | undefined> {
+    const policy = await client.send(new GetPolicyCommand({ PolicyArn: arn }));
+    const versionId = policy.Policy?.DefaultVersionId;
+    if (!versionId) return undefined;
+    const version = await client.send(new GetPolicyVersionCommand({ PolicyArn: arn, VersionId: versionId }));
+    return version.PolicyVersion?.Document;
+  }
+
+  private checkPermissions(
+    resource: { resourceId: string; resourceType: string; resourceName: string },
+    principal: string,
+    statements: ResolvedStatement[]
+  ): ScanFinding[] {
+    const base = { ...resource, service: 'IAMPolicy' };
+
+    // Administrators can do everything below anyway, so that is the only finding for them
+    const administrator = findAdministratorStatements(statements);
+    if (administrator.length > 0) {
+      return [{
+        ...base,
+        severity: 'HIGH',
+        finding: 'Full Administrative Privileges',
+        description: `${principal} is allowed Action * on Resource * by ${describeStatements(administrator)}.`,
+        remediation: 'Grant only the actions and resources the principal needs, and keep administrator access to a few break-glass identities.',
+        evidence: { statements: statementEvidence(administrator) },
+      }];
+    }
+
+    const findings: ScanFinding[] = [];
+    const passRole = findWildcardPassRole(statements);
+    if (passRole.length > 0) {
+      findings.push({
+        ...base,
+        severity: 'MEDIUM',
+        finding: 'PassRole on Any Role',
+        description: `${principal} can pass any role to AWS services through ${describeStatements(passRole)}.`,
+        remediation: 'Limit iam:PassRole to the ARNs of the roles the principal needs to pass, and to the services with iam:PassedToService.',
+        evidence: { statements: statementEvidence(passRole) },
+      });
+    }
+
+    for (const { path, grants } of findEscalationPaths(statements)) {
+      findings.push({
+        ...base,
+        severity: 'HIGH',
+        finding: `Privilege Escalation via ${path.name}`,
+        description: `${principal} can escalate its privileges with ${path.actions.join(' + ')}, granted by ` +
+          grants.map(grant => `${grant.action} in ${describeStatements(grant.statements)}`).join('; ') + '.',
+        remediation: 'Remove the actions from the principal, or restrict them to resources that cannot grant further permissions.',
+        evidence: {
+          actions: path.actions,
+          grants: grants.map(grant => ({ action: grant.action, statements: statementEvidence(grant.statements) })),
+        },
+      });
+    }
+
+    return findings;
+  }
+
+  private checkTrustPolicy(
+    context: ScanContext,
+    resource: { resourceId: string; resourceType: string; resourceName: string },
+    document: string
+  ): ScanFinding[] {
+    const base = { ...resource, service: 'IAMPolicy' };
+    const statements = resolveStatements([{ name: `role ${resource.resourceName} trust policy`, document }]);
+    const issues = analyzeTrustPolicy(statements, context.accountId);
+    const findings: ScanFinding[] = [];
+
+    if (issues.public.length > 0) {
+      findings.push({
+        ...base,
+        severity: 'HIGH',
+        finding: 'Role Trusts Any Principal',
+        description: `Any AWS principal can assume role ${resource.resourceName} through ${describeStatements(issues.public)}.`,
+        remediation: 'Name the trusted accounts or roles in the trust policy, or add conditions such as aws:PrincipalOrgID.',
+        evidence: { statements: statementEvidence(issues.public) },
+      });
+    }
+
+    if (issues.crossAccount.length > 0) {
+      const accounts = Array.from(new Set(issues.crossAccount.flatMap(issue => issue.accounts)));
+      findings.push({
+        ...base,
+        severity: 'MEDIUM',
+        finding: 'Cross-Account Trust Without ExternalId',
+        description: `Role ${resource.resourceName} can be assumed from account(s) ${accounts.join(', ')} without an sts:ExternalId condition, ` +
+          `through ${describeStatements(issues.crossAccount.map(issue => issue.statement))}.`,
+        remediation: 'Require an sts:ExternalId condition for third-party accounts, or restrict the trust to specific roles.',
+        evidence: {
+          accounts,
+          statements: issues.crossAccount.map(issue => ({ ...statementEvidence([issue.statement])[0], accounts: issue.accounts })),
+        },
+      });
+    }
+
+    return findings;
+  }
+}
@@ -0,0 +1,43 @@
+import { parseCredentialReport } from './iam';
+
+const HEADER = 'user,arn,password_enabled,mfa_active,access_key_1_active,access_key_2_active';
+
+describe('parseCredentialReport', () => {
+  it('maps every value of a row to its column', () => {
+    const [row] = parseCredentialReport(`${HEADER}\nalice,arn:aws:iam::111122223333:user/alice,true,false,true,false\n`);
+
+    expect(row).toEqual({
+      user: 'alice',
+      arn: 'arn:aws:iam::111122223333:user/alice',
+      password_enabled: 'true',
+      mfa_active: 'false',
+      access_key_1_active: 'true',
+      access_key_2_active: 'false',
+    });
+  });
+
+  it('keeps commas inside quoted user names from shifting the columns', () => {
+    const rows = parseCredentialReport([
+      HEADER,
+      '"ops,admin","arn:aws:iam::111122223333:user/ops,admin",true,true,false,true',
+      'bob,arn:aws:iam::111122223333:user/bob,false,false,true,false',
+    ].join('\r\n'));
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toEqual({
+      user: 'ops,admin',
+      arn: 'arn:aws:iam::111122223333:user/ops,admin',
+      password_enabled: 'true',
+      mfa_active: 'true',
+      access_key_1_active: 'false',
+      access_key_2_active: 'true',
+    });
+    expect(rows[1].mfa_active).toBe('false');
+  });
+
+  it('unescapes doubled quotes inside quoted values', () => {
+    const [row] = parseCredentialReport(`user,arn\n"say ""hi""",arn:aws:iam::111122223333:user/x`);
+
+    expect(row.user).toBe('say "hi"');
+  });
+});
@@ -1,75 +1,343 @@
-import { IAMClient, GetAccountSummaryCommand, ListUsersCommand, ListAccessKeysCommand } from '@aws-sdk/client-iam';
-import { AssetFinding } from '../../db/schema';
-
-type Finding = Omit<AssetFinding, 'id' | 'accountId' | 'region' | 'createdAt' | 'updatedAt'>;
-
-export class IAMScanner {
-  async scan(account: { accessKeyId: string; secretAccessKey: string; sessionToken?: string }, region: string): Promise<Finding[]> {
-    const client = new IAMClient({
-      credentials: {
-        accessKeyId: account.accessKeyId,
-        secretAccessKey: account.secretAccessKey,
-        sessionToken: account.sessionToken,
-      },
-      region,
+import {
+  IAMClient,
+  GenerateCredentialReportCommand,
+  GetCredentialReportCommand,
+  GetAccountPasswordPolicyCommand,
+  PasswordPolicy,
+} from '@aws-sdk/client-iam';
+import { ScanContext, ScanFinding, ScannerModule, ScannerScope } from '../registry';
+import logger from '../../logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Generating a credential report usually takes a few seconds
+const REPORT_ATTEMPTS = 10;
+const REPORT_POLL_MS = 2000;
+
+const ROOT_USER = '<root_account>';
+
+export interface PasswordPolicyRequirements {
+  minimumLength: number;
+  requireSymbols: boolean;
+  requireNumbers: boolean;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  // Number of previous passwords that may not be reused, 0 to not require it
+  reusePrevention: number;
+  // Longest allowed password age in days, 0 to not require passwords to expire
+  maxAge: number;
+}
+
+export interface IAMScannerOptions {
+  // Active access keys older than this are reported, defaults to IAM_MAX_ACCESS_KEY_AGE_DAYS or 90
+  maxAccessKeyAgeDays?: number;
+  // Passwords and access keys unused for this long are reported, defaults to IAM_UNUSED_CREDENTIAL_DAYS or 45
+  unusedCredentialDays?: number;
+  // Root account activity within this window is reported, defaults to IAM_ROOT_USAGE_DAYS or 90
+  rootUsageDays?: number;
+  passwordPolicy?: Partial<PasswordPolicyRequirements>;
+}
+
+// One row of the IAM credential report, keyed by column name
+type CredentialReportRow = Record<string, string>;
+
+function envNumber(name: string, fallback: number): number {
+  return Number(process.env[name]) || fallback;
+}
+
+// Splits one CSV line, keeping commas inside quoted values such as user names like "ops,admin"
+function splitCsvLine(line: string): string[] {
+  const values: string[] = [];
+  let value = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted && char === '"' && line[i + 1] === '"') {
+      value += '"';
+      i++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === ',' && !quoted) {
+      values.push(value);
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+  values.push(value);
+  return values;
+}
+
+export function parseCredentialReport(csv: string): CredentialReportRow[] {
+  const [header, ...lines] = csv.trim().split(/\r?\n/);
+  const columns = splitCsvLine(header);
+  return lines.map(line => {
+    const values = splitCsvLine(line);
+    return Object.fromEntries(columns.map((column, index) => [column, values[index]]));
+  });
+}
+
+// Days since a report timestamp, undefined for values such as N/A or no_information
+function daysSince(value?: string): number | undefined {
+  const time = value ? Date.parse(value) : NaN;
+  return Number.isNaN(time) ? undefined : Math.floor((Date.now() - time) / DAY_MS);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export class IAMScanner implements ScannerModule {
+  readonly name = 'IAM';
+  readonly scope: ScannerScope = 'global';
+  readonly permissions = [
+    'iam:GenerateCredentialReport',
+    'iam:GetCredentialReport',
+    'iam:GetAccountPasswordPolicy',
+  ];
+  private maxAccessKeyAgeDays: number;
+  private unusedCredentialDays: number;
+  private rootUsageDays: number;
+  private passwordPolicy: PasswordPolicyRequirements;
+
+  constructor(options: IAMScannerOptions = {}) {
+    this.maxAccessKeyAgeDays = options.maxAccessKeyAgeDays ?? envNumber('IAM_MAX_ACCESS_KEY_AGE_DAYS', 90);
+    this.unusedCredentialDays = options.unusedCredentialDays ?? envNumber('IAM_UNUSED_CREDENTIAL_DAYS', 45);
+    this.rootUsageDays = options.rootUsageDays ?? envNumber('IAM_ROOT_USAGE_DAYS', 90);
+    this.passwordPolicy = {
+      minimumLength: envNumber('IAM_MIN_PASSWORD_LENGTH', 14),
+      requireSymbols: true,
+      requireNumbers: true,
+      requireUppercase: true,
+      requireLowercase: true,
+      reusePrevention: 24,
+      maxAge: 0,
+      ...options.passwordPolicy,
+    };
+  }
+
+  async scan(context: ScanContext): Promise<ScanFinding[]> {
+    const client = context.client(IAMClient);
+    const findings: ScanFinding[] = [];
+
+    await context.check('credential report', async () => {
+      const rows = parseCredentialReport(await this.getCredentialReport(client));
+      for (const row of rows) {
+        findings.push(...(row.user === ROOT_USER ? this.checkRoot(row) : this.checkUser(row)));
+      }
     });
 
-    const findings: Finding[] = [];
+    findings.push(...await context.check('password policy', () => this.checkPasswordPolicy(client)) || []);
 
-    try {
-      // Check account password policy
-      const accountSummary = await client.send(new GetAccountSummaryCommand({}));
-      
-      if (!accountSummary.SummaryMap?.AccountMFAEnabled) {
+    return findings;
+  }
+
+  private async getCredentialReport(client: IAMClient): Promise<string> {
+    for (let attempt = 1; attempt <= REPORT_ATTEMPTS; attempt++) {
+      const { State } = await client.send(new GenerateCredentialReportCommand({}));
+      if (State === 'COMPLETE') break;
+      logger.info(`[IAM] Waiting for the credential report (${State}), attempt ${attempt}`);
+      await sleep(REPORT_POLL_MS);
+    }
+
+    const report = await client.send(new GetCredentialReportCommand({}));
+    if (!report.Content) {
+      throw new Error('The credential report is empty');
+    }
+    return Buffer.from(report.Content).toString('utf8');
+  }
+
+  private checkRoot(row: CredentialReportRow): ScanFinding[] {
+    const base = { resourceId: 'account', resourceType: 'IAM_ACCOUNT', resourceName: 'Root Account', service: 'IAM' };
+    const findings: ScanFinding[] = [];
+
+    if (row.mfa_active !== 'true') {
+      findings.push({
+        ...base,
+        severity: 'HIGH',
+        finding: 'Root Account MFA Not Enabled',
+        description: 'The root account does not have Multi-Factor Authentication (MFA) enabled.',
+        remediation: 'Enable MFA for the root account to enhance security.',
+      });
+    }
+
+    const activeKeys = [1, 2].filter(key => row[`access_key_${key}_active`] === 'true');
+    if (activeKeys.length > 0) {
+      findings.push({
+        ...base,
+        severity: 'HIGH',
+        finding: 'Root Access Keys Present',
+        description: `The root account has ${activeKeys.length} active access key(s).`,
+        remediation: 'Delete the root access keys and use IAM roles or users for programmatic access.',
+        evidence: Object.fromEntries(activeKeys.map(key => [`accessKey${key}LastUsed`, row[`access_key_${key}_last_used_date`]])),
+      });
+    }
+
+    const lastUsed = [row.password_last_used, row.access_key_1_last_used_date, row.access_key_2_last_used_date]
+      .map(daysSince)
+      .filter((days): days is number => days !== undefined);
+    const daysAgo = lastUsed.length > 0 ? Math.min(...lastUsed) : undefined;
+    if (daysAgo !== undefined && daysAgo <= this.rootUsageDays) {
+      findings.push({
+        ...base,
+        severity: 'MEDIUM',
+        finding: 'Recent Root Account Usage',
+        description: `The root account was used ${daysAgo} day(s) ago.`,
+        remediation: 'Reserve the root account for the few tasks that require it and use IAM identities for everything else.',
+        evidence: {
+          passwordLastUsed: row.password_last_used,
+          accessKey1LastUsed: row.access_key_1_last_used_date,
+          accessKey2LastUsed: row.access_key_2_last_used_date,
+        },
+      });
+    }
+
+    return findings;
+  }
+
+  private checkUser(row: CredentialReportRow): ScanFinding[] {
+    const base = { resourceId: row.arn, resourceType: 'IAM_USER', resourceName: row.user, service: 'IAM' };
+    const findings: ScanFinding[] = [];
+    const consoleAccess = row.password_enabled === 'true';
+
+    if (consoleAccess && row.mfa_active !== 'true') {
+      findings.push({
+        ...base,
+        severity: 'HIGH',
+        finding: 'Console User Without MFA',
+        description: `User ${row.user} can sign in to the console without MFA.`,
+        remediation: 'Enable an MFA device for the user, or remove the console password if it is not needed.',
+      });
+    }
+
+    // Credentials that were never used count from the time they were created
+    const passwordIdle = daysSince(row.password_last_used) ?? daysSince(row.password_last_changed) ?? daysSince(row.user_creation_time);
+    if (consoleAccess && passwordIdle !== undefined && passwordIdle >= this.unusedCredentialDays) {
+      findings.push({
+        ...base,
+        severity: 'MEDIUM',
+        finding: 'Unused Password',
+        description: `User ${row.user} has not signed in for ${passwordIdle} days.`,
+        remediation: 'Remove the console password of users that no longer sign in.',
+        evidence: { passwordLastUsed: row.password_last_used, userCreationTime: row.user_creation_time },
+      });
+    }
+
+    const activeKeys = [1, 2].filter(key => row[`access_key_${key}_active`] === 'true');
+    if (activeKeys.length > 1) {
+      findings.push({
+        ...base,
+        severity: 'MEDIUM',
+        finding: 'Multiple Access Keys',
+        description: `User ${row.user} has multiple active access keys.`,
+        remediation: 'Review and remove unnecessary access keys. Each user should typically have at most one active access key.',
+      });
+    }
+
+    for (const key of activeKeys) {
+      // Each key is a resource of its own, so findings about both keys of a user don't share a fingerprint
+      const keyBase = {
+        ...base,
+        resourceId: `${row.arn}/access_key_${key}`,
+        resourceType: 'IAM_ACCESS_KEY',
+        resourceName: `${row.user} access key ${key}`,
+      };
+      const lastRotated = row[`access_key_${key}_last_rotated`];
+      const lastUsed = row[`access_key_${key}_last_used_date`];
+      const age = daysSince(lastRotated);
+      if (age !== undefined && age > this.maxAccessKeyAgeDays) {
         findings.push({
-          resourceId: 'account',
-          resourceType: 'IAM_ACCOUNT',
-          resourceName: 'Root Account',
-          service: 'IAM',
-          severity: 'HIGH',
-          finding: 'Root Account MFA Not Enabled',
-          description: 'The root account does not have Multi-Factor Authentication (MFA) enabled.',
-          remediation: 'Enable MFA for the root account to enhance security.',
+          ...keyBase,
+          severity: 'MEDIUM',
+          finding: 'Access Key Not Rotated',
+          description: `Access key ${key} of user ${row.user} is ${age} days old, older than the allowed ${this.maxAccessKeyAgeDays}.`,
+          remediation: 'Create a new access key, switch the workloads over to it and delete the old one.',
+          evidence: { accessKey: key, lastRotated },
         });
       }
 
-      // Check IAM users
-      const users = await client.send(new ListUsersCommand({}));
-      
-      for (const user of users.Users || []) {
-        // Check for access keys
-        const accessKeys = await client.send(new ListAccessKeysCommand({ UserName: user.UserName }));
-        
-        if ((accessKeys.AccessKeyMetadata || []).length > 1) {
-          findings.push({
-            resourceId: user.UserId!,
-            resourceType: 'IAM_USER',
-            resourceName: user.UserName,
-            service: 'IAM',
-            severity: 'MEDIUM',
-            finding: 'Multiple Access Keys',
-            description: `User ${user.UserName} has multiple active access keys.`,
-            remediation: 'Review and remove unnecessary access keys. Each user should typically have at most one active access key.',
-          });
-        }
-
-        if (!user.PasswordLastUsed) {
-          findings.push({
-            resourceId: user.UserId!,
-            resourceType: 'IAM_USER',
-            resourceName: user.UserName,
-            service: 'IAM',
-            severity: 'LOW',
-            finding: 'Inactive User',
-            description: `User ${user.UserName} has never signed in or has not signed in recently.`,
-            remediation: 'Review and remove inactive users to maintain good security hygiene.',
-          });
-        }
+      const idle = daysSince(lastUsed) ?? age;
+      if (idle !== undefined && idle >= this.unusedCredentialDays) {
+        findings.push({
+          ...keyBase,
+          severity: 'MEDIUM',
+          finding: 'Unused Access Key',
+          description: `Access key ${key} of user ${row.user} has not been used for ${idle} days.`,
+          remediation: 'Deactivate and delete access keys that are no longer used.',
+          evidence: { accessKey: key, lastUsed, lastRotated },
+        });
       }
-    } catch (error) {
-      console.error('Error scanning IAM:', error);
     }
 
     return findings;
   }
+
+  private async checkPasswordPolicy(client: IAMClient): Promise<ScanFinding[]> {
+    const base = { resourceId: 'account', resourceType: 'IAM_ACCOUNT', resourceName: 'Account Password Policy', service: 'IAM' };
+
+    let policy: PasswordPolicy | undefined;
+    try {
+      policy = (await client.send(new GetAccountPasswordPolicyCommand({}))).PasswordPolicy;
+    } catch (error: any) {
+      if (error.name !== 'NoSuchEntityException') throw error;
+    }
+    if (!policy) {
+      return [{
+        ...base,
+        severity: 'MEDIUM',
+        finding: 'No Password Policy',
+        description: 'The account has no IAM password policy, so the AWS defaults apply to console passwords.',
+        remediation: 'Set an account password policy that meets the organization requirements.',
+      }];
+    }
+
+    const required = this.passwordPolicy;
+    const findings: ScanFinding[] = [];
+    // Length and reuse are separate CIS controls, so each gets a finding of its own
+    const minimumLength = policy.MinimumPasswordLength ?? 0;
+    if (minimumLength < required.minimumLength) {
+      findings.push({
+        ...base,
+        severity: 'MEDIUM',
+        finding: 'Password Policy Minimum Length Too Short',
+        description: `The account password policy requires ${minimumLength} characters, fewer than the required ${required.minimumLength}.`,
+        remediation: `Set the minimum password length of the account password policy to ${required.minimumLength} or more.`,
+        evidence: { minimumLength, required: required.minimumLength },
+      });
+    }
+
+    const reusePrevention = policy.PasswordReusePrevention ?? 0;
+    if (reusePrevention < required.reusePrevention) {
+      findings.push({
+        ...base,
+        severity: 'MEDIUM',
+        finding: 'Password Reuse Not Prevented',
+        description: `The account password policy remembers ${reusePrevention} previous passwords, fewer than the required ${required.reusePrevention}.`,
+        remediation: `Set the password reuse prevention of the account password policy to ${required.reusePrevention} or more.`,
+        evidence: { reusePrevention, required: required.reusePrevention },
+      });
+    }
+
+    const failures: string[] = [];
+    if (required.requireSymbols && !policy.RequireSymbols) failures.push('symbols are not required');
+    if (required.requireNumbers && !policy.RequireNumbers) failures.push('numbers are not required');
+    if (required.requireUppercase && !policy.RequireUppercaseCharacters) failures.push('uppercase letters are not required');
+    if (required.requireLowercase && !policy.RequireLowercaseCharacters) failures.push('lowercase letters are not required');
+    if (required.maxAge > 0 && (!policy.MaxPasswordAge || policy.MaxPasswordAge > required.maxAge)) {
+      const expiry = policy.MaxPasswordAge ? `passwords expire after ${policy.MaxPasswordAge} days` : 'passwords never expire';
+      failures.push(`${expiry}, required ${required.maxAge}`);
+    }
+
+    if (failures.length > 0) {
+      findings.push({
+        ...base,
+        severity: 'MEDIUM',
+        finding: 'Weak Password Policy',
+        description: `The account password policy does not meet the requirements: ${failures.join('; ')}.`,
+        remediation: 'Update the account password policy to meet the configured requirements.',
+        evidence: { policy, failures },
+      });
+    }
+    return findings;
+  }
 }
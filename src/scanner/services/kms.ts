@@ -1,90 +1,187 @@
-import { KMSClient, ListKeysCommand, DescribeKeyCommand } from '@aws-sdk/client-kms';
-import { AssetFinding } from '../../db/schema';
+import {
+  KMSClient,
+  ListKeysCommand,
+  DescribeKeyCommand,
+  GetKeyRotationStatusCommand,
+  GetKeyPolicyCommand,
+  ListGrantsCommand,
+  KeyMetadata,
+} from '@aws-sdk/client-kms';
+import { ScanContext, ScanFinding, ScannerModule, ScannerScope } from '../registry';
+import { paginate, truncationFinding } from '../pagination';
+import { analyzePrincipals, describeStatements, principalAccount, resolveStatements } from '../policies';
 
-type Finding = Omit<AssetFinding, 'id' | 'accountId' | 'region' | 'createdAt' | 'updatedAt'>;
+// Grant operations that let the grantee read data protected by the key
+const DECRYPT_OPERATIONS = ['Decrypt', 'ReEncryptFrom', 'CreateGrant'];
 
-export class KMSScanner {
-  async scan(account: { accessKeyId: string; secretAccessKey: string; sessionToken?: string }, region: string): Promise<Finding[]> {
-    const client = new KMSClient({
-      credentials: {
-        accessKeyId: account.accessKeyId,
-        secretAccessKey: account.secretAccessKey,
-        sessionToken: account.sessionToken,
-      },
-      region,
-    });
+// Automatic rotation is only available for symmetric keys with KMS generated key material
+function supportsRotation(metadata: KeyMetadata): boolean {
+  return metadata.KeySpec === 'SYMMETRIC_DEFAULT' &&
+    metadata.Origin === 'AWS_KMS' &&
+    metadata.MultiRegionConfiguration?.MultiRegionKeyType !== 'REPLICA';
+}
+
+export class KMSScanner implements ScannerModule {
+  readonly name = 'KMS';
+  readonly scope: ScannerScope = 'regional';
+  readonly permissions = [
+    'kms:ListKeys',
+    'kms:DescribeKey',
+    'kms:GetKeyRotationStatus',
+    'kms:GetKeyPolicy',
+    'kms:ListGrants',
+  ];
+
+  async scan(context: ScanContext): Promise<ScanFinding[]> {
+    const client = context.client(KMSClient);
+    const findings: ScanFinding[] = [];
+
+    const keys = await context.check('keys', () => paginate('KMS_KEY', async marker => {
+      const page = await client.send(new ListKeysCommand({ Marker: marker }));
+      return { items: page.Keys, nextToken: page.Truncated ? page.NextMarker : undefined };
+    }));
+    if (!keys) {
+      return findings;
+    }
+    if (keys.truncated) {
+      findings.push(truncationFinding(this.name, keys));
+    }
+
+    if (keys.items.length === 0) {
+      findings.push({
+        resourceId: 'account',
+        resourceType: 'KMS_ACCOUNT',
+        resourceName: 'Account KMS',
+        service: 'KMS',
+        severity: 'LOW',
+        finding: 'No KMS Keys',
+        description: 'No KMS keys are configured in this region.',
+        remediation: 'Consider using KMS keys for encrypting sensitive data.',
+      });
+      return findings;
+    }
+
+    for (const key of keys.items) {
+      if (!key.KeyId) continue;
+      const { KeyMetadata: metadata } = await context.check('key metadata', () =>
+        client.send(new DescribeKeyCommand({ KeyId: key.KeyId }))
+      ) || {};
+      // AWS managed keys can't be configured by the account
+      if (!metadata || metadata.KeyManager === 'AWS') continue;
+      findings.push(...await this.scanKey(context, client, metadata));
+    }
+
+    return findings;
+  }
+
+  private async scanKey(context: ScanContext, client: KMSClient, metadata: KeyMetadata): Promise<ScanFinding[]> {
+    const keyId = metadata.KeyId!;
+    const base = { resourceId: metadata.Arn || keyId, resourceType: 'KMS_KEY', resourceName: keyId, service: 'KMS' };
+    const keyAccount = metadata.AWSAccountId || context.accountId;
+    const findings: ScanFinding[] = [];
+
+    if (metadata.KeyState === 'Disabled') {
+      findings.push({
+        ...base,
+        severity: 'MEDIUM',
+        finding: 'Disabled KMS Key',
+        description: `KMS key ${keyId} is disabled.`,
+        remediation: 'Review and enable important KMS keys or schedule them for deletion if no longer needed.',
+      });
+    }
+
+    if (metadata.KeyState === 'PendingDeletion') {
+      findings.push({
+        ...base,
+        severity: 'HIGH',
+        finding: 'KMS Key Pending Deletion',
+        description: `KMS key ${keyId} is scheduled for deletion.`,
+        remediation: 'Review if the key should be deleted. Cancel deletion if the key is still needed.',
+      });
+      // Nothing else about a key that is going away is worth fixing
+      return findings;
+    }
 
-    const findings: Finding[] = [];
+    if (supportsRotation(metadata)) {
+      const rotation = await context.check('key rotation', () =>
+        client.send(new GetKeyRotationStatusCommand({ KeyId: keyId }))
+      );
+      if (rotation && !rotation.KeyRotationEnabled) {
+        findings.push({
+          ...base,
+          severity: 'MEDIUM',
+          finding: 'Key Rotation Disabled',
+          description: `Automatic rotation is not enabled for customer managed key ${keyId}.`,
+          remediation: 'Enable automatic key rotation for the key.',
+        });
+      }
+    }
 
-    try {
-      const keys = await client.send(new ListKeysCommand({}));
+    const { Policy: policy } = await context.check('key policy', () =>
+      client.send(new GetKeyPolicyCommand({ KeyId: keyId, PolicyName: 'default' }))
+    ) || {};
+    if (policy) {
+      const statements = resolveStatements([{ name: `key policy of ${keyId}`, document: policy }]);
+      const issues = analyzePrincipals(statements, keyAccount);
 
-      if (!keys.Keys?.length) {
+      if (issues.public.length > 0) {
         findings.push({
-          resourceId: 'account',
-          resourceType: 'KMS_ACCOUNT',
-          resourceName: 'Account KMS',
-          service: 'KMS',
-          severity: 'LOW',
-          finding: 'No KMS Keys',
-          description: 'No KMS keys are configured in this region.',
-          remediation: 'Consider using KMS keys for encrypting sensitive data.',
+          ...base,
+          severity: 'HIGH',
+          finding: 'Key Policy Allows Any Principal',
+          description: `The ${describeStatements(issues.public)} allows any AWS principal without conditions.`,
+          remediation: 'Name the principals that may use the key, or add conditions such as kms:CallerAccount or aws:PrincipalOrgID.',
+          evidence: { statements: issues.public.map(({ policy, statement }) => ({ policy, statement })) },
         });
-        return findings;
       }
 
-      for (const key of keys.Keys) {
-        if (!key.KeyId) continue;
-
-        const keyDetails = await client.send(new DescribeKeyCommand({ KeyId: key.KeyId }));
-        const metadata = keyDetails.KeyMetadata;
-
-        if (!metadata) continue;
-
-        const resourceId = metadata.Arn || metadata.KeyId || 'unknown';
-        const resourceName = metadata.KeyId || 'unknown';
-
-        if (metadata.KeyState === 'Disabled') {
-          findings.push({
-            resourceId,
-            resourceType: 'KMS_KEY',
-            resourceName,
-            service: 'KMS',
-            severity: 'MEDIUM',
-            finding: 'Disabled KMS Key',
-            description: `KMS key ${metadata.KeyId} is disabled.`,
-            remediation: 'Review and enable important KMS keys or schedule them for deletion if no longer needed.',
-          });
-        }
-
-        if (metadata.KeyState === 'PendingDeletion') {
-          findings.push({
-            resourceId,
-            resourceType: 'KMS_KEY',
-            resourceName,
-            service: 'KMS',
-            severity: 'HIGH',
-            finding: 'KMS Key Pending Deletion',
-            description: `KMS key ${metadata.KeyId} is scheduled for deletion.`,
-            remediation: 'Review if the key should be deleted. Cancel deletion if the key is still needed.',
-          });
-        }
-
-        if (metadata.Origin === 'AWS_KMS') {
-          findings.push({
-            resourceId,
-            resourceType: 'KMS_KEY',
-            resourceName,
-            service: 'KMS',
-            severity: 'LOW',
-            finding: 'AWS Managed Key Material',
-            description: `KMS key ${metadata.KeyId} uses AWS-managed key material.`,
-            remediation: 'Consider using customer-managed key material for better control over the key lifecycle.',
-          });
-        }
+      if (issues.crossAccount.length > 0) {
+        const accounts = Array.from(new Set(issues.crossAccount.flatMap(issue => issue.accounts)));
+        findings.push({
+          ...base,
+          severity: 'MEDIUM',
+          finding: 'Key Policy Grants Cross-Account Access',
+          description: `The key policy of ${keyId} allows account(s) ${accounts.join(', ')} to use the key, ` +
+            `through ${describeStatements(issues.crossAccount.map(issue => issue.statement))}.`,
+          remediation: 'Remove the other accounts from the key policy unless they need to use the key.',
+          evidence: {
+            accounts,
+            statements: issues.crossAccount.map(({ statement, accounts }) => ({ statement: statement.statement, accounts })),
+          },
+        });
+      }
+    }
+
+    const grants = await context.check('key grants', () => paginate('KMS_GRANT', async marker => {
+      const page = await client.send(new ListGrantsCommand({ KeyId: keyId, Marker: marker }));
+      return { items: page.Grants, nextToken: page.Truncated ? page.NextMarker : undefined };
+    }));
+    if (grants) {
+      if (grants.truncated) {
+        findings.push(truncationFinding(this.name, grants, { resourceId: base.resourceId, resourceName: keyId }));
+      }
+      const external = grants.items.filter(grant => {
+        const account = grant.GranteePrincipal ? principalAccount(grant.GranteePrincipal) : undefined;
+        return account && account !== keyAccount &&
+          (grant.Operations || []).some(operation => DECRYPT_OPERATIONS.includes(operation));
+      });
+      if (external.length > 0) {
+        findings.push({
+          ...base,
+          severity: 'MEDIUM',
+          finding: 'Key Grants Decrypt to External Account',
+          description: `KMS key ${keyId} has ${external.length} grant(s) that let principals of other accounts decrypt with it.`,
+          remediation: 'Retire the grants that external accounts no longer need.',
+          evidence: {
+            grants: external.map(grant => ({
+              grantId: grant.GrantId,
+              name: grant.Name,
+              granteePrincipal: grant.GranteePrincipal,
+              operations: grant.Operations,
+            })),
+          },
+        });
       }
-    } catch (error) {
-      console.error('Error scanning KMS:', error);
     }
 
     return findings;
@@ -0,0 +1,273 @@
+import {
+  RDSClient,
+  DescribeDBInstancesCommand,
+  DescribeDBClustersCommand,
+  DescribeDBSnapshotsCommand,
+  DescribeDBSnapshotAttributesCommand,
+  DescribeDBClusterSnapshotsCommand,
+  DescribeDBClusterSnapshotAttributesCommand,
+  DBSnapshotAttribute,
+  DBClusterSnapshotAttribute,
+} from '@aws-sdk/client-rds';
+import { ScanContext, ScanFinding, ScannerModule, ScannerScope } from '../registry';
+import { paginate, truncationFinding } from '../pagination';
+
+const DEFAULT_MIN_BACKUP_RETENTION_DAYS = 7;
+
+// End of RDS standard support per engine major version
+const ENGINE_END_OF_SUPPORT: Record<string, Record<string, string>> = {
+  mysql: { '5.5': '2018-12-31', '5.6': '2022-03-01', '5.7': '2024-02-29', '8.0': '2026-07-31' },
+  postgres: {
+    '9.5': '2021-03-31', '9.6': '2022-04-26', '10': '2023-04-17', '11': '2024-02-29', '12': '2025-02-28', '13': '2026-02-28',
+  },
+  mariadb: { '10.2': '2022-10-15', '10.3': '2023-10-23' },
+  'aurora-mysql': { '5.6': '2023-02-28', '5.7': '2024-10-31' },
+  'aurora-postgresql': { '9.6': '2022-01-31', '10': '2023-01-31', '11': '2024-02-29', '12': '2025-02-28' },
+};
+
+export interface RDSScannerOptions {
+  // Backups kept for fewer days than this are reported, defaults to RDS_MIN_BACKUP_RETENTION_DAYS or 7
+  minBackupRetentionDays?: number;
+}
+
+interface DatabaseResource {
+  arn: string;
+  type: 'RDS_INSTANCE' | 'RDS_CLUSTER';
+  name: string;
+  engine?: string;
+  engineVersion?: string;
+  publiclyAccessible?: boolean;
+  storageEncrypted?: boolean;
+  backupRetentionPeriod?: number;
+  deletionProtection?: boolean;
+}
+
+function endOfSupport(engine?: string, version?: string): string | undefined {
+  const majors = ENGINE_END_OF_SUPPORT[engine || ''];
+  if (!majors || !version) return undefined;
+  const major = Object.keys(majors).find(major => version === major || version.startsWith(`${major}.`));
+  return major ? majors[major] : undefined;
+}
+
+export class RDSScanner implements ScannerModule {
+  readonly name = 'RDS';
+  readonly scope: ScannerScope = 'regional';
+  readonly permissions = [
+    'rds:DescribeDBInstances',
+    'rds:DescribeDBClusters',
+    'rds:DescribeDBSnapshots',
+    'rds:DescribeDBSnapshotAttributes',
+    'rds:DescribeDBClusterSnapshots',
+    'rds:DescribeDBClusterSnapshotAttributes',
+  ];
+  private minBackupRetentionDays: number;
+
+  constructor(options: RDSScannerOptions = {}) {
+    this.minBackupRetentionDays = options.minBackupRetentionDays
+      ?? (Number(process.env.RDS_MIN_BACKUP_RETENTION_DAYS) || DEFAULT_MIN_BACKUP_RETENTION_DAYS);
+  }
+
+  async scan(context: ScanContext): Promise<ScanFinding[]> {
+    const client = context.client(RDSClient);
+    const findings: ScanFinding[] = [];
+
+    await context.check('DB instances', async () => {
+      const instances = await paginate('RDS_INSTANCE', async marker => {
+        const page = await client.send(new DescribeDBInstancesCommand({ Marker: marker }));
+        return { items: page.DBInstances, nextToken: page.Marker };
+      });
+      if (instances.truncated) {
+        findings.push(truncationFinding(this.name, instances));
+      }
+      for (const instance of instances.items) {
+        if (!instance.DBInstanceArn) continue;
+        // Storage, backups and deletion protection of cluster members are managed by the cluster
+        const clustered = !!instance.DBClusterIdentifier;
+        findings.push(...this.checkDatabase({
+          arn: instance.DBInstanceArn,
+          type: 'RDS_INSTANCE',
+          name: instance.DBInstanceIdentifier || instance.DBInstanceArn,
+          engine: instance.Engine,
+          engineVersion: clustered ? undefined : instance.EngineVersion,
+          publiclyAccessible: instance.PubliclyAccessible,
+          storageEncrypted: clustered ? undefined : instance.StorageEncrypted,
+          backupRetentionPeriod: clustered ? undefined : instance.BackupRetentionPeriod,
+          deletionProtection: clustered ? undefined : instance.DeletionProtection,
+        }));
+      }
+    });
+
+    await context.check('DB clusters', async () => {
+      const clusters = await paginate('RDS_CLUSTER', async marker => {
+        const page = await client.send(new DescribeDBClustersCommand({ Marker: marker }));
+        return { items: page.DBClusters, nextToken: page.Marker };
+      });
+      if (clusters.truncated) {
+        findings.push(truncationFinding(this.name, clusters));
+      }
+      for (const cluster of clusters.items) {
+        if (!cluster.DBClusterArn) continue;
+        findings.push(...this.checkDatabase({
+          arn: cluster.DBClusterArn,
+          type: 'RDS_CLUSTER',
+          name: cluster.DBClusterIdentifier || cluster.DBClusterArn,
+          engine: cluster.Engine,
+          engineVersion: cluster.EngineVersion,
+          publiclyAccessible: cluster.PubliclyAccessible,
+          storageEncrypted: cluster.StorageEncrypted,
+          backupRetentionPeriod: cluster.BackupRetentionPeriod,
+          deletionProtection: cluster.DeletionProtection,
+        }));
+      }
+    });
+
+    await context.check('DB snapshots', async () => {
+      const snapshots = await paginate('RDS_SNAPSHOT', async marker => {
+        const page = await client.send(new DescribeDBSnapshotsCommand({ SnapshotType: 'manual', Marker: marker }));
+        return { items: page.DBSnapshots, nextToken: page.Marker };
+      });
+      if (snapshots.truncated) {
+        findings.push(truncationFinding(this.name, snapshots));
+      }
+      for (const snapshot of snapshots.items) {
+        if (!snapshot.DBSnapshotArn || !snapshot.DBSnapshotIdentifier) continue;
+        const attributes = await client.send(new DescribeDBSnapshotAttributesCommand({
+          DBSnapshotIdentifier: snapshot.DBSnapshotIdentifier,
+        }));
+        findings.push(...this.checkSnapshotSharing(
+          context,
+          snapshot.DBSnapshotArn,
+          snapshot.DBSnapshotIdentifier,
+          'RDS_SNAPSHOT',
+          attributes.DBSnapshotAttributesResult?.DBSnapshotAttributes
+        ));
+      }
+    });
+
+    await context.check('DB cluster snapshots', async () => {
+      const snapshots = await paginate('RDS_CLUSTER_SNAPSHOT', async marker => {
+        const page = await client.send(new DescribeDBClusterSnapshotsCommand({ SnapshotType: 'manual', Marker: marker }));
+        return { items: page.DBClusterSnapshots, nextToken: page.Marker };
+      });
+      if (snapshots.truncated) {
+        findings.push(truncationFinding(this.name, snapshots));
+      }
+      for (const snapshot of snapshots.items) {
+        if (!snapshot.DBClusterSnapshotArn || !snapshot.DBClusterSnapshotIdentifier) continue;
+        const attributes = await client.send(new DescribeDBClusterSnapshotAttributesCommand({
+          DBClusterSnapshotIdentifier: snapshot.DBClusterSnapshotIdentifier,
+        }));
+        findings.push(...this.checkSnapshotSharing(
+          context,
+          snapshot.DBClusterSnapshotArn,
+          snapshot.DBClusterSnapshotIdentifier,
+          'RDS_CLUSTER_SNAPSHOT',
+          attributes.DBClusterSnapshotAttributesResult?.DBClusterSnapshotAttributes
+        ));
+      }
+    });
+
+    return findings;
+  }
+
+  private checkDatabase(database: DatabaseResource): ScanFinding[] {
+    const base = { resourceId: database.arn, resourceType: database.type, resourceName: database.name, service: 'RDS' };
+    const kind = database.type === 'RDS_CLUSTER' ? 'DB cluster' : 'DB instance';
+    const findings: ScanFinding[] = [];
+
+    if (database.publiclyAccessible) {
+      findings.push({
+        ...base,
+        severity: 'HIGH',
+        finding: 'Publicly Accessible Database',
+        description: `${kind} ${database.name} is publicly accessible.`,
+        remediation: 'Disable public accessibility and reach the database from within the VPC or over a VPN.',
+      });
+    }
+
+    if (database.storageEncrypted === false) {
+      findings.push({
+        ...base,
+        severity: 'MEDIUM',
+        finding: 'Unencrypted Database Storage',
+        description: `${kind} ${database.name} does not encrypt its storage.`,
+        remediation: 'Restore an encrypted copy of a snapshot of the database and switch over to it.',
+      });
+    }
+
+    if (database.backupRetentionPeriod !== undefined && database.backupRetentionPeriod < this.minBackupRetentionDays) {
+      findings.push({
+        ...base,
+        severity: database.backupRetentionPeriod === 0 ? 'HIGH' : 'MEDIUM',
+        finding: 'Insufficient Backup Retention',
+        description: database.backupRetentionPeriod === 0
+          ? `${kind} ${database.name} has automated backups disabled.`
+          : `${kind} ${database.name} keeps backups for ${database.backupRetentionPeriod} day(s), fewer than the required ${this.minBackupRetentionDays}.`,
+        remediation: `Set the backup retention period to at least ${this.minBackupRetentionDays} days.`,
+        evidence: { backupRetentionPeriod: database.backupRetentionPeriod, minimum: this.minBackupRetentionDays },
+      });
+    }
+
+    if (database.deletionProtection === false) {
+      findings.push({
+        ...base,
+        severity: 'LOW',
+        finding: 'Deletion Protection Disabled',
+        description: `${kind} ${database.name} can be deleted without first disabling deletion protection.`,
+        remediation: 'Enable deletion protection on production databases.',
+      });
+    }
+
+    const supportEnds = endOfSupport(database.engine, database.engineVersion);
+    if (supportEnds && new Date(supportEnds).getTime() < Date.now()) {
+      findings.push({
+        ...base,
+        severity: 'MEDIUM',
+        finding: 'End-of-Life Database Engine',
+        description: `${kind} ${database.name} runs ${database.engine} ${database.engineVersion}, which reached the end of standard support on ${supportEnds}.`,
+        remediation: 'Upgrade the database to a supported major engine version.',
+        evidence: { engine: database.engine, engineVersion: database.engineVersion, endOfSupport: supportEnds },
+      });
+    }
+
+    return findings;
+  }
+
+  private checkSnapshotSharing(
+    context: ScanContext,
+    arn: string,
+    name: string,
+    type: string,
+    attributes: (DBSnapshotAttribute | DBClusterSnapshotAttribute)[] = []
+  ): ScanFinding[] {
+    const base = { resourceId: arn, resourceType: type, resourceName: name, service: 'RDS' };
+    const sharedWith = attributes
+      .filter(attribute => attribute.AttributeName === 'restore')
+      .flatMap(attribute => attribute.AttributeValues || []);
+
+    if (sharedWith.includes('all')) {
+      return [{
+        ...base,
+        severity: 'HIGH',
+        finding: 'Publicly Shared Snapshot',
+        description: `Snapshot ${name} can be restored by any AWS account.`,
+        remediation: 'Remove "all" from the snapshot restore permissions.',
+        evidence: { sharedWith },
+      }];
+    }
+
+    const unknown = sharedWith.filter(accountId => !context.knownAccountIds.includes(accountId));
+    if (unknown.length > 0) {
+      return [{
+        ...base,
+        severity: 'MEDIUM',
+        finding: 'Snapshot Shared With Unknown Account',
+        description: `Snapshot ${name} is shared with account(s) not managed in AWS Security Lens: ${unknown.join(', ')}.`,
+        remediation: 'Stop sharing the snapshot with accounts that should not restore it, or add them as managed accounts.',
+        evidence: { sharedWith, unknownAccountIds: unknown },
+      }];
+    }
+
+    return [];
+  }
+}
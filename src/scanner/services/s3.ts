@@ -0,0 +1,260 @@
+import {
+  S3Client,
+  ListBucketsCommand,
+  GetBucketLocationCommand,
+  GetPublicAccessBlockCommand,
+  GetBucketPolicyCommand,
+  GetBucketAclCommand,
+  GetBucketEncryptionCommand,
+  GetBucketVersioningCommand,
+  GetBucketLoggingCommand,
+  PublicAccessBlockConfiguration,
+} from '@aws-sdk/client-s3';
+import { S3ControlClient, GetPublicAccessBlockCommand as GetAccountPublicAccessBlockCommand } from '@aws-sdk/client-s3-control';
+import { ScanContext, ScanFinding, ScannerModule, ScannerScope } from '../registry';
+import { paginate, truncationFinding } from '../pagination';
+
+interface PolicyStatement {
+  Effect?: string;
+  Principal?: string | { AWS?: string | string[] };
+  Condition?: Record<string, Record<string, unknown>>;
+}
+
+export const PUBLIC_GRANTEES: Record<string, string> = {
+  'http://acs.amazonaws.com/groups/global/AllUsers': 'AllUsers',
+  'http://acs.amazonaws.com/groups/global/AuthenticatedUsers': 'AuthenticatedUsers',
+};
+
+// GetBucketLocation reports us-east-1 as empty and eu-west-1 by its legacy name
+export function bucketRegion(locationConstraint?: string): string {
+  if (!locationConstraint) return 'us-east-1';
+  if (locationConstraint === 'EU') return 'eu-west-1';
+  return locationConstraint;
+}
+
+export function blocksAll(config?: PublicAccessBlockConfiguration): boolean {
+  return !!(config?.BlockPublicAcls && config.IgnorePublicAcls && config.BlockPublicPolicy && config.RestrictPublicBuckets);
+}
+
+export function isPublicPrincipal(principal: PolicyStatement['Principal']): boolean {
+  if (principal === '*') return true;
+  const aws = typeof principal === 'object' ? principal.AWS : undefined;
+  return aws === '*' || (Array.isArray(aws) && aws.includes('*'));
+}
+
+export function policyStatements(policy: string): PolicyStatement[] {
+  const statement = JSON.parse(policy).Statement;
+  if (!statement) return [];
+  return Array.isArray(statement) ? statement : [statement];
+}
+
+// A bucket enforces TLS when it denies every request where aws:SecureTransport is false
+function enforcesTls(statements: PolicyStatement[]): boolean {
+  return statements.some(statement =>
+    statement.Effect === 'Deny' &&
+    String(statement.Condition?.Bool?.['aws:SecureTransport']).toLowerCase() === 'false'
+  );
+}
+
+export class S3Scanner implements ScannerModule {
+  readonly name = 'S3';
+  readonly scope: ScannerScope = 'global';
+  readonly permissions = [
+    's3:ListAllMyBuckets',
+    's3:GetAccountPublicAccessBlock',
+    's3:GetBucketLocation',
+    's3:GetBucketPublicAccessBlock',
+    's3:GetBucketPolicy',
+    's3:GetBucketAcl',
+    's3:GetEncryptionConfiguration',
+    's3:GetBucketVersioning',
+    's3:GetBucketLogging',
+  ];
+
+  async scan(context: ScanContext): Promise<ScanFinding[]> {
+    const client = context.client(S3Client);
+    const findings: ScanFinding[] = [];
+
+    let accountBlock: PublicAccessBlockConfiguration | undefined;
+    let accountBlockChecked = false;
+    if (context.accountId) {
+      const result = await context.check('account Block Public Access', async () => ({
+        block: await this.getAccountPublicAccessBlock(context, context.accountId!),
+      }));
+      accountBlock = result?.block;
+      accountBlockChecked = !!result;
+    } else {
+      context.skip('account Block Public Access', 'The AWS account ID is unknown');
+    }
+    if (accountBlockChecked && !blocksAll(accountBlock)) {
+      findings.push({
+        resourceId: `arn:aws:s3::${context.accountId}:account`,
+        resourceType: 'S3_ACCOUNT',
+        resourceName: 'Account S3',
+        service: 'S3',
+        severity: 'HIGH',
+        finding: 'Account Public Access Block Disabled',
+        description: 'S3 Block Public Access is not fully enabled at the account level.',
+        remediation: 'Enable all four S3 Block Public Access settings for the account unless a bucket must be public.',
+      });
+    }
+
+    // ListBuckets only returns a continuation token when the page size is set
+    const buckets = await context.check('buckets', () => paginate('S3_BUCKET', async token => {
+      const page = await client.send(new ListBucketsCommand({ ContinuationToken: token, MaxBuckets: 1000 }));
+      return { items: page.Buckets, nextToken: page.ContinuationToken };
+    }));
+    if (!buckets) {
+      return findings;
+    }
+    if (buckets.truncated) {
+      findings.push(truncationFinding(this.name, buckets));
+    }
+    for (const bucket of buckets.items) {
+      if (!bucket.Name) continue;
+      findings.push(...await context.check('bucket settings', () => this.scanBucket(context, bucket.Name!, accountBlock)) || []);
+    }
+
+    return findings;
+  }
+
+  private async getAccountPublicAccessBlock(
+    context: ScanContext,
+    accountId: string
+  ): Promise<PublicAccessBlockConfiguration | undefined> {
+    try {
+      const response = await context.client(S3ControlClient).send(
+        new GetAccountPublicAccessBlockCommand({ AccountId: accountId })
+      );
+      return response.PublicAccessBlockConfiguration;
+    } catch (error: any) {
+      if (error.name === 'NoSuchPublicAccessBlockConfiguration') return undefined;
+      throw error;
+    }
+  }
+
+  private async scanBucket(
+    context: ScanContext,
+    name: string,
+    accountBlock?: PublicAccessBlockConfiguration
+  ): Promise<ScanFinding[]> {
+    const location = await context.client(S3Client).send(new GetBucketLocationCommand({ Bucket: name }));
+    const region = bucketRegion(location.LocationConstraint);
+    const client = context.client(S3Client, region);
+    const base = { resourceId: `arn:aws:s3:::${name}`, resourceType: 'S3_BUCKET', resourceName: name, service: 'S3', region };
+    const findings: ScanFinding[] = [];
+
+    // Settings missing from a bucket are reported as errors with these names
+    const optional = async <T>(request: Promise<T>, missing: string): Promise<T | undefined> => {
+      try {
+        return await request;
+      } catch (error: any) {
+        if (error.name === missing) return undefined;
+        throw error;
+      }
+    };
+
+    const bucketBlock = (await optional(
+      client.send(new GetPublicAccessBlockCommand({ Bucket: name })),
+      'NoSuchPublicAccessBlockConfiguration'
+    ))?.PublicAccessBlockConfiguration;
+    if (!blocksAll(accountBlock) && !blocksAll(bucketBlock)) {
+      findings.push({
+        ...base,
+        severity: 'MEDIUM',
+        finding: 'Bucket Public Access Block Disabled',
+        description: `Bucket ${name} does not have all Block Public Access settings enabled, at the bucket or account level.`,
+        remediation: 'Enable all four Block Public Access settings on the bucket unless it must be public.',
+      });
+    }
+    const policyBlocked = !!(accountBlock?.RestrictPublicBuckets || bucketBlock?.RestrictPublicBuckets);
+    const aclBlocked = !!(accountBlock?.IgnorePublicAcls || bucketBlock?.IgnorePublicAcls);
+
+    const policy = (await optional(client.send(new GetBucketPolicyCommand({ Bucket: name })), 'NoSuchBucketPolicy'))?.Policy;
+    const statements = policy ? policyStatements(policy) : [];
+    const publicStatements = statements.filter(statement =>
+      statement.Effect === 'Allow' && isPublicPrincipal(statement.Principal) && !statement.Condition
+    );
+    if (publicStatements.length > 0) {
+      findings.push({
+        ...base,
+        severity: policyBlocked ? 'MEDIUM' : 'HIGH',
+        finding: 'Bucket Policy Allows Public Access',
+        description: `Bucket ${name} has ${publicStatements.length} policy statement(s) that allow any principal (*) without conditions.` +
+          (policyBlocked ? ' Block Public Access currently restricts them.' : ''),
+        remediation: 'Limit the bucket policy to specific principals, or add conditions such as aws:SourceVpce or aws:PrincipalOrgID.',
+      });
+    }
+    if (!enforcesTls(statements)) {
+      findings.push({
+        ...base,
+        severity: 'MEDIUM',
+        finding: 'Bucket Policy Does Not Enforce TLS',
+        description: `Bucket ${name} does not deny requests made without TLS.`,
+        remediation: 'Add a bucket policy statement that denies all s3:* actions when aws:SecureTransport is false.',
+      });
+    }
+
+    const acl = await client.send(new GetBucketAclCommand({ Bucket: name }));
+    const publicGrantees = Array.from(new Set((acl.Grants || [])
+      .map(grant => PUBLIC_GRANTEES[grant.Grantee?.URI || ''])
+      .filter(Boolean)));
+    if (publicGrantees.length > 0) {
+      findings.push({
+        ...base,
+        severity: aclBlocked ? 'MEDIUM' : 'HIGH',
+        finding: 'Bucket ACL Grants Public Access',
+        description: `Bucket ${name} ACL grants access to ${publicGrantees.join(' and ')}.` +
+          (aclBlocked ? ' Block Public Access currently ignores these grants.' : ''),
+        remediation: 'Remove the public grants from the bucket ACL and disable ACLs with the BucketOwnerEnforced object ownership setting.',
+      });
+    }
+
+    const encryption = await optional(
+      client.send(new GetBucketEncryptionCommand({ Bucket: name })),
+      'ServerSideEncryptionConfigurationNotFoundError'
+    );
+    if (!encryption?.ServerSideEncryptionConfiguration?.Rules?.length) {
+      findings.push({
+        ...base,
+        severity: 'MEDIUM',
+        finding: 'Default Encryption Disabled',
+        description: `Bucket ${name} has no default server-side encryption configured.`,
+        remediation: 'Configure default encryption with SSE-S3 or SSE-KMS.',
+      });
+    }
+
+    const versioning = await client.send(new GetBucketVersioningCommand({ Bucket: name }));
+    if (versioning.Status !== 'Enabled') {
+      findings.push({
+        ...base,
+        severity: 'LOW',
+        finding: 'Versioning Disabled',
+        description: `Bucket ${name} does not have versioning enabled.`,
+        remediation: 'Enable versioning to protect objects from accidental overwrites and deletes.',
+      });
+    }
+    if (versioning.MFADelete !== 'Enabled') {
+      findings.push({
+        ...base,
+        severity: 'LOW',
+        finding: 'MFA Delete Disabled',
+        description: `Bucket ${name} does not require MFA to delete object versions or change versioning.`,
+        remediation: 'Enable MFA delete with the root account credentials for buckets holding critical data.',
+      });
+    }
+
+    const logging = await client.send(new GetBucketLoggingCommand({ Bucket: name }));
+    if (!logging.LoggingEnabled) {
+      findings.push({
+        ...base,
+        severity: 'LOW',
+        finding: 'Access Logging Disabled',
+        description: `Bucket ${name} does not have server access logging enabled.`,
+        remediation: 'Enable server access logging to a dedicated log bucket.',
+      });
+    }
+
+    return findings;
+  }
+}
@@ -1,22 +1,24 @@
 import { SecurityHubClient, GetEnabledStandardsCommand, GetFindingsCommand } from '@aws-sdk/client-securityhub';
 import { AssetFinding } from '../../db/schema';
+import { ScanContext, ScannerModule, ScannerScope } from '../registry';
+import { paginate, truncationFinding } from '../pagination';
 
 type Finding = Omit<AssetFinding, 'id' | 'accountId' | 'region' | 'createdAt' | 'updatedAt'>;
 
-export class SecurityHubScanner {
-  async scan(account: { accessKeyId: string; secretAccessKey: string; sessionToken?: string }, region: string): Promise<Finding[]> {
-    const client = new SecurityHubClient({
-      credentials: {
-        accessKeyId: account.accessKeyId,
-        secretAccessKey: account.secretAccessKey,
-        sessionToken: account.sessionToken,
-      },
-      region,
-    });
+export class SecurityHubScanner implements ScannerModule {
+  readonly name = 'SecurityHub';
+  readonly scope: ScannerScope = 'regional';
+  readonly permissions = [
+    'securityhub:GetEnabledStandards',
+    'securityhub:GetFindings',
+  ];
+
+  async scan(context: ScanContext): Promise<Finding[]> {
+    const client = context.client(SecurityHubClient);
 
     const findings: Finding[] = [];
 
-    try {
+    await context.check('findings', async () => {
       // Check if SecurityHub is enabled by attempting to get enabled standards
       try {
         await client.send(new GetEnabledStandardsCommand({}));
@@ -39,15 +41,22 @@ export class SecurityHubScanner {
       }
 
       // Get SecurityHub findings
-      const securityHubFindings = await client.send(new GetFindingsCommand({
-        Filters: {
-          RecordState: [{ Value: 'ACTIVE', Comparison: 'EQUALS' }],
-          WorkflowStatus: [{ Value: 'NEW', Comparison: 'EQUALS' }],
-        },
-        MaxResults: 100, // Limit to 100 findings per scan
-      }));
+      const securityHubFindings = await paginate('SECURITYHUB_FINDING', async token => {
+        const page = await client.send(new GetFindingsCommand({
+          Filters: {
+            RecordState: [{ Value: 'ACTIVE', Comparison: 'EQUALS' }],
+            WorkflowStatus: [{ Value: 'NEW', Comparison: 'EQUALS' }],
+          },
+          MaxResults: 100, // The largest page GetFindings returns
+          NextToken: token,
+        }));
+        return { items: page.Findings, nextToken: page.NextToken };
+      });
+      if (securityHubFindings.truncated) {
+        findings.push(truncationFinding(this.name, securityHubFindings));
+      }
 
-      for (const finding of securityHubFindings.Findings || []) {
+      for (const finding of securityHubFindings.items) {
         if (!finding.Resources || finding.Resources.length === 0) continue;
 
         const resource = finding.Resources[0];
@@ -63,10 +72,7 @@ export class SecurityHubScanner {
                       'Review SecurityHub finding details and take appropriate action.',
         });
       }
-    } catch (error) {
-      console.error('Error scanning SecurityHub:', error);
-      // Don't throw the error, just log it and return any findings we've collected
-    }
+    });
 
     return findings;
   }
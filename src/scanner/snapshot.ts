@@ -0,0 +1,167 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ClientMiddleware } from './aws';
+
+export const SNAPSHOT_VERSION = 1;
+
+const MANIFEST_FILE = 'manifest.json';
+
+export interface SnapshotManifest {
+  version: number;
+  accountId?: string;
+  accountName?: string;
+  // Accounts managed when the snapshot was captured, so that replays tell them apart from external ones
+  knownAccountIds?: string[];
+  capturedAt: string;
+  // In scan order: global modules were collected in the first region
+  regions: string[];
+  services: string[];
+}
+
+export interface SnapshotCall {
+  client: string;
+  command: string;
+  input: unknown;
+  output?: unknown;
+  error?: { name: string; message: string; httpStatusCode?: number };
+}
+
+interface RegionSnapshot {
+  region: string;
+  calls: SnapshotCall[];
+}
+
+export class SnapshotMissingError extends Error {
+  constructor(region: string, call: Pick<SnapshotCall, 'client' | 'command'>) {
+    super(`Snapshot has no ${call.client} ${call.command} response for ${region} with this input`);
+    this.name = 'SnapshotMissingError';
+  }
+}
+
+// JSON loses Dates and binary payloads (e.g. the IAM credential report), so tag them
+function encode(value: unknown): string {
+  return JSON.stringify(value, function (this: any, key: string, encoded: unknown) {
+    const raw = this[key];
+    if (raw instanceof Date) return { $date: raw.toISOString() };
+    if (raw instanceof Uint8Array) return { $bytes: Buffer.from(raw).toString('base64') };
+    return encoded;
+  }, 2);
+}
+
+function decode(text: string): any {
+  return JSON.parse(text, (key, value) => {
+    if (value && typeof value === 'object' && typeof value.$date === 'string') return new Date(value.$date);
+    if (value && typeof value === 'object' && typeof value.$bytes === 'string') {
+      return new Uint8Array(Buffer.from(value.$bytes, 'base64'));
+    }
+    return value;
+  });
+}
+
+function sortKeys(value: any): any {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.keys(value).sort().map(key => [key, sortKeys(value[key])]));
+  }
+  return value;
+}
+
+function callKey(call: Pick<SnapshotCall, 'client' | 'command' | 'input'>): string {
+  const input = call.input === undefined ? {} : JSON.parse(encode(call.input));
+  return `${call.client}/${call.command}/${JSON.stringify(sortKeys(input))}`;
+}
+
+function regionFile(region: string): string {
+  return `${region}.json`;
+}
+
+// Captures the raw response of every AWS API call made during a scan
+export class SnapshotRecorder {
+  private calls = new Map<string, SnapshotCall[]>();
+
+  middleware(region: string): ClientMiddleware {
+    if (!this.calls.has(region)) {
+      this.calls.set(region, []);
+    }
+    const calls = this.calls.get(region)!;
+
+    return client => client.middlewareStack.add((next: any, context: any) => async (args: any) => {
+      const call: SnapshotCall = { client: context.clientName, command: context.commandName, input: args.input };
+      try {
+        const result = await next(args);
+        const { $metadata, ...output } = result.output;
+        calls.push({ ...call, output });
+        return result;
+      } catch (error: any) {
+        calls.push({
+          ...call,
+          error: { name: error.name, message: error.message, httpStatusCode: error.$metadata?.httpStatusCode },
+        });
+        throw error;
+      }
+    }, { step: 'initialize', name: 'snapshotRecorder' });
+  }
+
+  async save(dir: string, manifest: Omit<SnapshotManifest, 'version' | 'capturedAt'>): Promise<void> {
+    await fs.mkdir(dir, { recursive: true });
+    const fullManifest: SnapshotManifest = { version: SNAPSHOT_VERSION, capturedAt: new Date().toISOString(), ...manifest };
+    await fs.writeFile(path.join(dir, MANIFEST_FILE), encode(fullManifest));
+    for (const region of manifest.regions) {
+      const snapshot: RegionSnapshot = { region, calls: this.calls.get(region) || [] };
+      await fs.writeFile(path.join(dir, regionFile(region)), encode(snapshot));
+    }
+  }
+}
+
+// Answers AWS API calls from a saved snapshot without touching the network
+export class SnapshotReplayer {
+  readonly manifest: SnapshotManifest;
+  private calls: Map<string, Map<string, SnapshotCall[]>>;
+
+  private constructor(manifest: SnapshotManifest, calls: Map<string, Map<string, SnapshotCall[]>>) {
+    this.manifest = manifest;
+    this.calls = calls;
+  }
+
+  static async load(dir: string): Promise<SnapshotReplayer> {
+    const manifest: SnapshotManifest = decode(await fs.readFile(path.join(dir, MANIFEST_FILE), 'utf8'));
+    if (manifest.version !== SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported snapshot version ${manifest.version} in ${dir}`);
+    }
+
+    const calls = new Map<string, Map<string, SnapshotCall[]>>();
+    for (const region of manifest.regions) {
+      const snapshot: RegionSnapshot = decode(await fs.readFile(path.join(dir, regionFile(region)), 'utf8'));
+      const byKey = new Map<string, SnapshotCall[]>();
+      for (const call of snapshot.calls) {
+        const key = callKey(call);
+        byKey.set(key, [...(byKey.get(key) || []), call]);
+      }
+      calls.set(region, byKey);
+    }
+
+    return new SnapshotReplayer(manifest, calls);
+  }
+
+  middleware(region: string): ClientMiddleware {
+    const calls = this.calls.get(region) || new Map<string, SnapshotCall[]>();
+
+    return client => client.middlewareStack.add((next: any, context: any) => async (args: any) => {
+      const request = { client: context.clientName, command: context.commandName, input: args.input };
+      const responses = calls.get(callKey(request));
+      if (!responses?.length) {
+        throw new SnapshotMissingError(region, request);
+      }
+
+      // Identical calls are answered in the order they were recorded; the last answer repeats
+      const call = responses.length > 1 ? responses.shift()! : responses[0];
+      if (call.error) {
+        throw Object.assign(new Error(call.error.message), {
+          name: call.error.name,
+          $metadata: { httpStatusCode: call.error.httpStatusCode },
+        });
+      }
+      return { output: { ...structuredClone(call.output as object), $metadata: {} }, response: {} };
+    }, { step: 'initialize', name: 'snapshotReplayer' });
+  }
+}
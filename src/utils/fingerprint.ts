@@ -0,0 +1,16 @@
+import { createHash } from 'crypto';
+
+export interface FingerprintInput {
+  accountId: number;
+  region: string;
+  service: string;
+  resourceId: string;
+  finding: string;
+}
+
+// Identifies the same finding across scans, independent of severity or wording changes
+export function findingFingerprint(input: FingerprintInput): string {
+  return createHash('sha256')
+    .update([input.accountId, input.region, input.service, input.resourceId, input.finding].join('\u0000'))
+    .digest('hex');
+}
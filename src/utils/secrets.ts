@@ -0,0 +1,78 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { readFileSync } from 'fs';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const PREFIX = 'enc:v1';
+
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(`${PREFIX}:`);
+}
+
+// Shows only the last four characters, e.g. of an access key ID
+export function maskSecret(value?: string): string | undefined {
+  if (!value) return undefined;
+  return `${'*'.repeat(Math.max(value.length - 4, 4))}${value.slice(-4)}`;
+}
+
+// Loads a base64 encoded 256-bit key from an environment variable or the file named by `${name}_FILE`
+export function loadKey(name: string): Buffer | undefined {
+  const file = process.env[`${name}_FILE`];
+  const encoded = process.env[name] || (file ? readFileSync(file, 'utf8').trim() : undefined);
+  if (!encoded) {
+    return undefined;
+  }
+
+  const key = Buffer.from(encoded, 'base64');
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(`${name} must be a base64 encoded ${KEY_LENGTH}-byte key`);
+  }
+  return key;
+}
+
+// Authenticated encryption for secrets stored in the database
+export class SecretCipher {
+  // Identifies the key a value was encrypted with, without revealing it
+  readonly keyId: string;
+  private key: Buffer;
+
+  constructor(key: Buffer) {
+    this.key = key;
+    this.keyId = createHash('sha256').update(key).digest('hex').slice(0, 8);
+  }
+
+  static fromEnvironment(): SecretCipher {
+    const key = loadKey('MASTER_KEY');
+    if (!key) {
+      throw new Error('MASTER_KEY or MASTER_KEY_FILE must be set to encrypt stored AWS credentials');
+    }
+    return new SecretCipher(key);
+  }
+
+  // Whether the value is encrypted with this cipher's key
+  owns(value: string): boolean {
+    return isEncrypted(value) && value.split(':')[2] === this.keyId;
+  }
+
+  encrypt(plaintext: string): string {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(ALGORITHM, this.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return [PREFIX, this.keyId, iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')].join(':');
+  }
+
+  decrypt(value: string): string {
+    if (!isEncrypted(value)) {
+      throw new Error('Value is not encrypted');
+    }
+    const [, , keyId, iv, tag, ciphertext] = value.split(':');
+    if (keyId !== this.keyId) {
+      throw new Error(`Value was encrypted with master key ${keyId}, not the configured key ${this.keyId}`);
+    }
+
+    const decipher = createDecipheriv(ALGORITHM, this.key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+  }
+}